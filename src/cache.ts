@@ -0,0 +1,70 @@
+/**
+ * Content cache shared by every page the plugin renders, so a header included by
+ * hundreds of pages is read and parsed once rather than once per page
+ */
+import { promises as fs } from 'fs';
+import { normalizeId } from './loader';
+import { parseSsi, type SsiDocument } from './parser';
+
+/**
+ * Raw and parsed content of included files. Rendered output is never cached,
+ * since it depends on the variables and blocks of the page including the file.
+ */
+export interface SsiCache {
+  /**
+   * Reads a file from disk, reusing the last read while its modification time and
+   * size are unchanged
+   * @throws Error if the file cannot be read
+   */
+  read(file: string): Promise<string>;
+  /** Parses the content of a file, reusing the last parse while the content is unchanged */
+  parse(id: string, content: string): SsiDocument;
+  /** Forgets a file, e.g. when the watcher reports it changed or was removed */
+  invalidate(file: string): void;
+  /** Forgets every file */
+  clear(): void;
+}
+
+/**
+ * Creates an empty content cache
+ */
+export function createSsiCache(): SsiCache {
+  const files = new Map<string, { mtimeMs: number; size: number; content: string }>();
+  const documents = new Map<string, { content: string; document: SsiDocument }>();
+
+  return {
+    async read(file) {
+      const id = normalizeId(file);
+      const stats = await fs.stat(file);
+      const cached = files.get(id);
+      if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+        return cached.content;
+      }
+      const content = await fs.readFile(file, 'utf-8');
+      files.set(id, { mtimeMs: stats.mtimeMs, size: stats.size, content });
+      return content;
+    },
+
+    parse(id, content) {
+      const key = normalizeId(id);
+      const cached = documents.get(key);
+      if (cached && cached.content === content) {
+        return cached.document;
+      }
+      const document = parseSsi(content);
+      documents.set(key, { content, document });
+      return document;
+    },
+
+    invalidate(file) {
+      const id = normalizeId(file);
+      files.delete(id);
+      documents.delete(id);
+    },
+
+    clear() {
+      files.clear();
+      documents.clear();
+    },
+  };
+}
@@ -1,14 +1,70 @@
 import type { ViteDevServer, PreviewServer } from 'vite';
 import type { IncomingMessage, ServerResponse } from 'http';
+import { AsyncLocalStorage } from 'async_hooks';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import { normalizePath, processSsi } from './ssi';
-import type { ProcessSsiOptions } from './ssi';
+import type { ProcessResult, ProcessSsiOptions } from './ssi';
+import type { SsiRequest } from './variables';
+import type { IncludeLoaderOptions } from './loader';
+import type { IncludeResolveOptions } from './resolve';
+import type { IncludeTransforms } from './transforms';
+import type { SsiDirectives } from './directives';
+import type { FragmentOptions } from './fragments';
+import type { RemoteIncludeOptions } from './remote';
+import type { SsiCache } from './cache';
+import type { IncludeGraph } from './include-graph';
+import { formatDiagnostic, type SsiDiagnostic, type SsiErrorHandling } from './diagnostics';
+import { isPathInside } from './sandbox';
 
-export interface DevServerOptions {
+export interface DevServerOptions extends IncludeLoaderOptions, IncludeResolveOptions {
   maxDepth: number;
   includeFileTypes?: string[];
   fileTypeMap?: import('./file-types').FileTypeMap;
+  valueLength?: number;
+  concurrency?: number;
+  rebaseUrls?: boolean;
+  includeTransforms?: IncludeTransforms;
+  directives?: SsiDirectives;
+  fragments?: FragmentOptions;
+  remote?: RemoteIncludeOptions;
+  cache?: SsiCache;
+  onError?: SsiErrorHandling;
+  allowedDirs?: string[];
+  deny?: (filePath: string) => boolean;
+}
+
+/**
+ * Request currently being served by the dev server, tracked across the async
+ * middleware chain so `transformIndexHtml` can read its URL and headers
+ */
+const requestStorage = new AsyncLocalStorage<IncomingMessage>();
+
+/**
+ * Sets up dev server middleware that exposes the live request to SSI processing
+ */
+export function setupDevServer(server: ViteDevServer): void {
+  server.middlewares.use((req: IncomingMessage, _res: ServerResponse, next: () => void) => {
+    requestStorage.run(req, next);
+  });
+}
+
+/**
+ * Gets the request being served by the dev server, if any
+ */
+export function getCurrentRequest(): SsiRequest | undefined {
+  const req = requestStorage.getStore();
+  return req ? toSsiRequest(req) : undefined;
+}
+
+/**
+ * Converts a Node request to the subset used for SSI variables
+ */
+function toSsiRequest(req: IncomingMessage): SsiRequest {
+  return {
+    url: (req as IncomingMessage & { originalUrl?: string }).originalUrl ?? req.url ?? '/',
+    headers: req.headers,
+  };
 }
 
 /**
@@ -24,6 +80,23 @@ export function setupPreviewServer(previewServer: PreviewServer, options: DevSer
     maxDepth: options.maxDepth,
     includeFileTypes: options.includeFileTypes,
     fileTypeMap: options.fileTypeMap,
+    valueLength: options.valueLength,
+    concurrency: options.concurrency,
+    rebaseUrls: options.rebaseUrls,
+    includeTransforms: options.includeTransforms,
+    directives: options.directives,
+    fragments: options.fragments,
+    remote: options.remote,
+    cache: options.cache,
+    onError: options.onError,
+    allowedDirs: options.allowedDirs,
+    deny: options.deny,
+    alias: options.alias,
+    includePaths: options.includePaths,
+    publicDir: options.publicDir,
+    resolveInclude: options.resolveInclude,
+    loadInclude: options.loadInclude,
+    files: options.files,
   };
 
   // Add middleware directly (runs before other middlewares)
@@ -33,15 +106,17 @@ export function setupPreviewServer(previewServer: PreviewServer, options: DevSer
       try {
         if (!req.url || req.method !== 'GET') return next();
 
-        // Normalize path
-        let reqPath = req.url.split('?')[0]; // Remove query string
+        // Normalize path; a malformed escape throws and is left to Vite
+        let reqPath = decodeURIComponent(req.url.split('?')[0]); // Remove query string
         if (reqPath === '/' || reqPath === '') {
           reqPath = '/index.html';
         }
         if (!reqPath.endsWith('.html')) return next();
 
-        // Remove leading slash and resolve from dist root
-        const filePath = path.join(distRoot, reqPath.startsWith('/') ? reqPath.slice(1) : reqPath);
+        // Remove leading slashes and resolve from dist root. Requests such as
+        // `/../secret.html` may not read pages outside of it.
+        const filePath = path.resolve(distRoot, reqPath.replace(/^[\\/]+/, ''));
+        if (!isPathInside(filePath, distRoot)) return next();
         const exists = await fs
           .access(filePath)
           .then(() => true)
@@ -54,7 +129,10 @@ export function setupPreviewServer(previewServer: PreviewServer, options: DevSer
         // If file is at dist/index.html, resolve includes relative to projectRoot/index.html
         const relativePath = path.relative(distRoot, filePath);
         const sourceFilePath = path.join(projectRoot, relativePath);
-        const result = await processSsi(sourceFilePath, raw, processOptions);
+        const result = await processSsi(sourceFilePath, raw, {
+          ...processOptions,
+          request: toSsiRequest(req),
+        });
         res.setHeader('Content-Type', 'text/html; charset=utf-8');
         res.end(result.code);
         return;
@@ -65,19 +143,61 @@ export function setupPreviewServer(previewServer: PreviewServer, options: DevSer
   );
 }
 
+/**
+ * Shows SSI diagnostics in Vite's error overlay. The overlay holds a single error,
+ * so it is located at the first diagnostic and lists all of them.
+ */
+export function reportDiagnostics(server: ViteDevServer, diagnostics: SsiDiagnostic[]): void {
+  if (diagnostics.length === 0) {
+    return;
+  }
+
+  const [first] = diagnostics;
+  server.ws.send({
+    type: 'error',
+    err: {
+      message: diagnostics
+        .map((diagnostic) => formatDiagnostic(diagnostic, server.config.root))
+        .join('\n\n'),
+      stack: '',
+      id: first.file,
+      loc: { file: first.file, line: first.line, column: first.column },
+      plugin: 'vite-plugin-ssi',
+    },
+  });
+}
+
 /**
  * Handles HMR updates when SSI dependency files change
  */
 export function handleHotUpdate(
   ctx: { file: string },
   server: ViteDevServer,
-  reverseDependencyMap: Map<string, Set<string>>
+  graph: IncludeGraph
 ): Array<import('vite').ModuleNode> | void {
-  const changedFile = normalizePath(ctx.file);
-
   // Check if changed file is a dependency of any HTML file
-  const affectedHtmlFiles = reverseDependencyMap.get(changedFile);
-  if (!affectedHtmlFiles || affectedHtmlFiles.size === 0) {
+  return reloadPages(server, graph.getAffected(normalizePath(ctx.file)));
+}
+
+/**
+ * Whether Vite reloads the page by itself for a created or deleted file, as it does
+ * for modules of the file that cannot be hot updated. Reloading the pages including
+ * the file as well would reload twice.
+ */
+export function reloadsByItself(server: ViteDevServer, file: string): boolean {
+  const modules = Array.from(server.moduleGraph.getModulesByFile(normalizePath(file)) ?? []);
+  return modules.length > 0 && modules.every((module) => !module.isSelfAccepting);
+}
+
+/**
+ * Reloads the HTML files depending on a changed or deleted file. Files in the set
+ * that are not pages, such as partials including the file, are skipped.
+ */
+export function reloadPages(
+  server: ViteDevServer,
+  affectedHtmlFiles: Set<string>
+): Array<import('vite').ModuleNode> | void {
+  if (affectedHtmlFiles.size === 0) {
     return;
   }
 
@@ -135,7 +255,8 @@ export function handleHotUpdate(
 }
 
 /**
- * Transforms index HTML with SSI processing
+ * Transforms index HTML with SSI processing in a single pass, returning the output
+ * together with the files it depends on and the errors reported
  */
 export async function transformIndexHtml(
   html: string,
@@ -144,7 +265,7 @@ export async function transformIndexHtml(
     server?: ViteDevServer;
   },
   options: DevServerOptions & { root?: string }
-): Promise<string> {
+): Promise<ProcessResult> {
   const root = ctx.server?.config.root || options.root || process.cwd();
   const filename = ctx.filename || 'index.html';
   // Ensure filename is absolute relative to root
@@ -156,13 +277,34 @@ export async function transformIndexHtml(
       maxDepth: options.maxDepth,
       includeFileTypes: options.includeFileTypes,
       fileTypeMap: options.fileTypeMap,
+      valueLength: options.valueLength,
+      concurrency: options.concurrency,
+      rebaseUrls: options.rebaseUrls,
+      includeTransforms: options.includeTransforms,
+      directives: options.directives,
+      fragments: options.fragments,
+      remote: options.remote,
+      cache: options.cache,
+      onError: options.onError,
+      allowedDirs: options.allowedDirs,
+      deny: options.deny,
+      alias: options.alias,
+      includePaths: options.includePaths,
+      publicDir: options.publicDir,
+      resolveInclude: options.resolveInclude,
+      loadInclude: options.loadInclude,
+      files: options.files,
+      request: getCurrentRequest(),
     };
 
     // Process SSI includes
-    const result = await processSsi(filePath, html, processOptions);
-    return result.code;
+    return await processSsi(filePath, html, processOptions);
   } catch (error) {
     // Return error as HTML comment
-    return `<!-- SSI Error: ${error instanceof Error ? error.message : String(error)} -->\n${html}`;
+    return {
+      code: `<!-- SSI Error: ${error instanceof Error ? error.message : String(error)} -->\n${html}`,
+      deps: new Set(),
+      diagnostics: [],
+    };
   }
 }
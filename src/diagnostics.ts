@@ -0,0 +1,125 @@
+/**
+ * Structured reports of SSI errors, collected while a document is rendered
+ */
+import * as path from 'path';
+
+/**
+ * Kind of problem a diagnostic reports:
+ * - `missing`: an included or inspected file does not exist
+ * - `cycle`: a file includes itself, directly or indirectly
+ * - `depth`: the `maxDepth` include limit was exceeded
+ * - `parse`: a malformed directive or unbalanced `if` / `block`
+ * - `forbidden`: an include outside the allowed directories, or a denied file
+ * - `directive`: any other invalid directive, e.g. a missing attribute or bad expression
+ * - `transform`: an `includeTransforms` function failed
+ * - `fragment`: a fragment module failed to load or render
+ * - `remote`: a remote include failed, timed out or did not respond with a 2xx status
+ */
+export type SsiDiagnosticCategory =
+  | 'missing'
+  | 'cycle'
+  | 'depth'
+  | 'parse'
+  | 'forbidden'
+  | 'directive'
+  | 'transform'
+  | 'fragment'
+  | 'remote';
+
+export interface SsiDiagnostic {
+  category: SsiDiagnosticCategory;
+  message: string;
+  /** Normalized path of the file containing the directive */
+  file: string;
+  /** 1-based line of the directive */
+  line: number;
+  /** 1-based column of the directive */
+  column: number;
+  /** Files being rendered when the error occurred, from the page down to `file` */
+  chain: string[];
+}
+
+/**
+ * Converts an offset in `source` to a 1-based line and column
+ */
+export function getLineColumn(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+/**
+ * Formats a file for messages relative to `root`, so they never expose where the
+ * project is on disk. Ids that are not paths are kept as they are.
+ */
+export function relativeToRoot(file: string, root: string): string {
+  return path.isAbsolute(file) ? path.relative(root, file).replace(/\\/g, '/') : file;
+}
+
+/**
+ * Formats a diagnostic for terminal output, with paths relative to `root`
+ *
+ * @example
+ * ```
+ * File not found: footer.html
+ *   at partials/layout.html:12:5
+ *   included from index.html
+ * ```
+ */
+export function formatDiagnostic(diagnostic: SsiDiagnostic, root: string): string {
+  const lines = [
+    diagnostic.message,
+    `  at ${relativeToRoot(diagnostic.file, root)}:${diagnostic.line}:${diagnostic.column}`,
+  ];
+  for (const file of diagnostic.chain.slice(0, -1).reverse()) {
+    lines.push(`  included from ${relativeToRoot(file, root)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * What happens when an SSI error occurs:
+ * - `comment`: output an error comment (or `config errmsg`) and report the diagnostic
+ * - `warn`: output nothing and report the diagnostic
+ * - `silent`: output nothing, like Nginx's `ssi_silent_errors`
+ * - `throw`: output an error comment, and fail `vite build` or `renderSsi`
+ */
+export type SsiErrorMode = 'comment' | 'silent' | 'warn' | 'throw';
+
+/**
+ * An error mode for every category, or per-category modes with an optional `default`
+ *
+ * @example
+ * ```ts
+ * { missing: 'throw', depth: 'warn', default: 'comment' }
+ * ```
+ */
+export type SsiErrorHandling =
+  | SsiErrorMode
+  | ({ default?: SsiErrorMode } & Partial<Record<SsiDiagnosticCategory, SsiErrorMode>>);
+
+/**
+ * Gets the error mode for a category of diagnostic
+ */
+export function getErrorMode(
+  handling: SsiErrorHandling | undefined,
+  category: SsiDiagnosticCategory
+): SsiErrorMode {
+  if (handling === undefined) {
+    return 'comment';
+  }
+  if (typeof handling === 'string') {
+    return handling;
+  }
+  return handling[category] ?? handling.default ?? 'comment';
+}
+
+/**
+ * Formats a list of diagnostics as a single error message
+ */
+export function summarizeDiagnostics(diagnostics: SsiDiagnostic[], root: string): string {
+  const count = diagnostics.length === 1 ? '1 SSI error' : `${diagnostics.length} SSI errors`;
+  return [`${count}:`, ...diagnostics.map((diagnostic) => formatDiagnostic(diagnostic, root))].join(
+    '\n\n'
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Project-specific SSI commands registered with the `directives` option
+ */
+import type { SsiDirectiveNode } from './parser';
+
+/**
+ * What a custom directive handler can read and affect while a document is rendered
+ */
+export interface SsiDirectiveContext {
+  /** The directive as parsed, with its raw attributes and source offsets */
+  directive: SsiDirectiveNode;
+  /** Normalized path or id of the file containing the directive */
+  file: string;
+  /** Root that root-relative paths are resolved against */
+  root: string;
+  /** Gets an SSI variable */
+  getVariable(name: string): string | undefined;
+  /** Sets an SSI variable for the directives that follow, like `set` */
+  setVariable(name: string, value: string): void;
+  /**
+   * Resolves a path the way `include` resolves its `virtual` (default) or `file` attribute,
+   * including `resolveInclude`, aliases and packages.
+   * Returns undefined when the path is invalid or outside the allowed directories.
+   */
+  resolve(includePath: string, kind?: 'virtual' | 'file'): Promise<string | undefined>;
+  /**
+   * Reads a resolved id through `loadInclude`, `files` or disk and adds it as a dependency
+   * @throws Error if the file does not exist
+   */
+  load(id: string): Promise<string>;
+  /** Adds a dependency to `ProcessResult.deps`, so changes to it reload the page in dev */
+  addDependency(id: string): void;
+  /** Reports an SSI error at the directive and returns the output to use in its place */
+  error(message: string): string;
+}
+
+/**
+ * Renders a custom directive. Attribute values have had variables substituted, and
+ * the last occurrence of an attribute wins. The returned string is output as-is.
+ * A handler that throws is reported as an SSI error.
+ */
+export type SsiDirectiveHandler = (
+  attributes: Record<string, string>,
+  context: SsiDirectiveContext
+) => string | Promise<string>;
+
+/**
+ * Custom directive handlers by command name, e.g. `{ icon: handler }` for `<!--#icon -->`
+ */
+export type SsiDirectives = Record<string, SsiDirectiveHandler>;
+
+/**
+ * Commands handled by `executeDirective`; anything else is left untouched unless a
+ * custom directive is registered for it
+ */
+export const DIRECTIVE_COMMANDS = new Set([
+  'include',
+  'set',
+  'echo',
+  'config',
+  'flastmod',
+  'fsize',
+]);
+
+/** Commands the parser turns into conditionals and blocks, never run as directives */
+const STRUCTURE_COMMANDS = new Set(['if', 'elif', 'else', 'endif', 'block', 'endblock']);
+
+/**
+ * Checks that no custom directive takes the name of a built-in or parser command
+ * @throws Error naming the reserved commands that were registered
+ */
+export function validateDirectives(directives: SsiDirectives): void {
+  const reserved = Object.keys(directives).filter((name) => {
+    const command = name.toLowerCase();
+    return DIRECTIVE_COMMANDS.has(command) || STRUCTURE_COMMANDS.has(command);
+  });
+  if (reserved.length > 0) {
+    throw new Error(
+      `Custom directives cannot use the reserved command names: ${reserved.join(', ')}`
+    );
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Evaluator for the `expr` attribute of `if` / `elif` directives.
+ *
+ * Supports the Nginx syntax (`$name`, `$name = text`, `$name != /regex/`) and
+ * the Apache legacy syntax, which adds `==`, `<`, `<=`, `>`, `>=`, `!`, `&&`,
+ * `||`, parentheses and single-quoted strings.
+ */
+import { substituteVariables, type SsiVariables } from './variables';
+
+type Token =
+  | { type: 'string'; value: string }
+  | { type: 'regex'; pattern: string }
+  | { type: 'operator'; value: string };
+
+const COMPARISON_OPERATORS = ['==', '!=', '<=', '>=', '=', '<', '>'];
+const OPERATORS = ['&&', '||', ...COMPARISON_OPERATORS, '!', '(', ')'];
+
+/**
+ * Splits an expression into tokens, expanding variables in strings
+ */
+function tokenize(expr: string, variables: SsiVariables): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expr.length) {
+    const char = expr[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => expr.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    // A slash directly after a comparison starts a regular expression
+    const previous = tokens[tokens.length - 1];
+    if (
+      char === '/' &&
+      previous?.type === 'operator' &&
+      (previous.value === '=' || previous.value === '!=')
+    ) {
+      let end = i + 1;
+      while (end < expr.length && expr[end] !== '/') {
+        end += expr[end] === '\\' ? 2 : 1;
+      }
+      if (end >= expr.length) {
+        throw new Error(`Unterminated regular expression in "${expr}"`);
+      }
+      tokens.push({ type: 'regex', pattern: expr.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = expr.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string in "${expr}"`);
+      }
+      tokens.push({
+        type: 'string',
+        value: substituteVariables(expr.slice(i + 1, end), variables),
+      });
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < expr.length && !/[\s'()]/.test(expr[end])) {
+      if (OPERATORS.some((op) => expr.startsWith(op, end))) {
+        break;
+      }
+      end += expr[end] === '\\' ? 2 : 1;
+    }
+    tokens.push({ type: 'string', value: substituteVariables(expr.slice(i, end), variables) });
+    i = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser that evaluates the token stream as it goes
+ */
+function evaluateTokens(tokens: Token[], expr: string): boolean {
+  let position = 0;
+
+  const peekOperator = (...values: string[]): string | undefined => {
+    const token = tokens[position];
+    if (token?.type === 'operator' && values.includes(token.value)) {
+      return token.value;
+    }
+    return undefined;
+  };
+
+  // Adjacent string tokens are joined with a single space, as in Apache
+  const parseString = (): string => {
+    const parts: string[] = [];
+    let token = tokens[position];
+    while (token?.type === 'string') {
+      parts.push(token.value);
+      token = tokens[++position];
+    }
+    if (parts.length === 0) {
+      throw new Error(`Expected a value in "${expr}"`);
+    }
+    return parts.join(' ');
+  };
+
+  const parseComparison = (): boolean => {
+    const left = parseString();
+    const operator = peekOperator(...COMPARISON_OPERATORS);
+    if (!operator) {
+      return left.length > 0;
+    }
+    position++;
+
+    const token = tokens[position];
+    if (token?.type === 'regex') {
+      position++;
+      let regex: RegExp;
+      try {
+        regex = new RegExp(token.pattern);
+      } catch {
+        throw new Error(`Invalid regular expression /${token.pattern}/`);
+      }
+      const matches = regex.test(left);
+      return operator === '!=' ? !matches : matches;
+    }
+
+    const right = parseString();
+    switch (operator) {
+      case '=':
+      case '==':
+        return left === right;
+      case '!=':
+        return left !== right;
+      case '<':
+        return left < right;
+      case '<=':
+        return left <= right;
+      case '>':
+        return left > right;
+      default:
+        return left >= right;
+    }
+  };
+
+  const parseUnary = (): boolean => {
+    if (peekOperator('!')) {
+      position++;
+      return !parseUnary();
+    }
+    if (peekOperator('(')) {
+      position++;
+      const result = parseOr();
+      if (!peekOperator(')')) {
+        throw new Error(`Missing closing parenthesis in "${expr}"`);
+      }
+      position++;
+      return result;
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): boolean => {
+    let result = parseUnary();
+    while (peekOperator('&&')) {
+      position++;
+      // Both sides are always parsed so syntax errors are reported
+      const right = parseUnary();
+      result = result && right;
+    }
+    return result;
+  };
+
+  const parseOr = (): boolean => {
+    let result = parseAnd();
+    while (peekOperator('||')) {
+      position++;
+      const right = parseAnd();
+      result = result || right;
+    }
+    return result;
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('Empty expression');
+  }
+  const result = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected token in "${expr}"`);
+  }
+  return result;
+}
+
+/**
+ * Evaluates an `expr` attribute against the current variables
+ * @throws Error if the expression is malformed
+ */
+export function evaluateExpression(expr: string, variables: SsiVariables): boolean {
+  return evaluateTokens(tokenize(expr, variables), expr);
+}
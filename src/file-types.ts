@@ -17,6 +17,7 @@ export const DEFAULT_FILE_TYPE_MAP: FileTypeMap = {
   json: ['.json', '.jsonc'],
   xml: ['.xml', '.xhtml'],
   text: ['.txt', '.md', '.markdown'],
+  markdown: ['.md', '.markdown'],
 };
 
 /**
@@ -0,0 +1,237 @@
+/**
+ * Time and size formatting for the `config timefmt` / `config sizefmt` directives
+ */
+
+/**
+ * Size formats supported by `config sizefmt`
+ */
+export type SizeFormat = 'bytes' | 'abbrev';
+
+/**
+ * Default `timefmt` used by both Apache and Nginx
+ */
+export const DEFAULT_TIME_FORMAT = '%A, %d-%b-%Y %H:%M:%S %Z';
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/**
+ * Broken-down time, either in the local timezone or in GMT
+ */
+interface TimeParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  /** Day of the year, starting at 0 */
+  yearDay: number;
+  /** Offset from GMT in minutes, positive east of Greenwich */
+  offset: number;
+  zone: string;
+}
+
+function getTimeParts(date: Date, gmt: boolean): TimeParts {
+  const year = gmt ? date.getUTCFullYear() : date.getFullYear();
+  const month = gmt ? date.getUTCMonth() : date.getMonth();
+  const day = gmt ? date.getUTCDate() : date.getDate();
+  return {
+    year,
+    month,
+    day,
+    weekday: gmt ? date.getUTCDay() : date.getDay(),
+    hours: gmt ? date.getUTCHours() : date.getHours(),
+    minutes: gmt ? date.getUTCMinutes() : date.getMinutes(),
+    seconds: gmt ? date.getUTCSeconds() : date.getSeconds(),
+    yearDay: (Date.UTC(year, month, day) - Date.UTC(year, 0, 1)) / 86400000,
+    offset: gmt ? 0 : -date.getTimezoneOffset(),
+    zone: gmt ? 'GMT' : getLocalZoneName(date),
+  };
+}
+
+function getLocalZoneName(date: Date): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZoneName: 'short' })
+    .formatToParts(date)
+    .find((p) => p.type === 'timeZoneName');
+  return part?.value ?? '';
+}
+
+function pad(value: number, width = 2, fill = '0'): string {
+  return String(value).padStart(width, fill);
+}
+
+/**
+ * ISO 8601 week number and week-based year
+ */
+function getIsoWeek(parts: TimeParts): { week: number; year: number } {
+  const isoWeekday = (parts.weekday + 6) % 7;
+  const thursday = new Date(Date.UTC(parts.year, parts.month, parts.day + 3 - isoWeekday));
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / 604800000) + 1;
+  return { week, year };
+}
+
+/**
+ * Formats a date using C `strftime` conversion specifications (C locale).
+ * Unknown specifications are output unchanged.
+ *
+ * @param gmt - Format in GMT instead of the local timezone
+ */
+export function strftime(format: string, date: Date, gmt = false): string {
+  const t = getTimeParts(date, gmt);
+  const hours12 = t.hours % 12 || 12;
+
+  const convert = (specifier: string): string | undefined => {
+    switch (specifier) {
+      case 'a':
+        return DAYS[t.weekday].slice(0, 3);
+      case 'A':
+        return DAYS[t.weekday];
+      case 'b':
+      case 'h':
+        return MONTHS[t.month].slice(0, 3);
+      case 'B':
+        return MONTHS[t.month];
+      case 'c':
+        return strftime('%a %b %e %H:%M:%S %Y', date, gmt);
+      case 'C':
+        return pad(Math.floor(t.year / 100));
+      case 'd':
+        return pad(t.day);
+      case 'D':
+      case 'x':
+        return strftime('%m/%d/%y', date, gmt);
+      case 'e':
+        return pad(t.day, 2, ' ');
+      case 'F':
+        return strftime('%Y-%m-%d', date, gmt);
+      case 'g':
+        return pad(getIsoWeek(t).year % 100);
+      case 'G':
+        return String(getIsoWeek(t).year);
+      case 'H':
+        return pad(t.hours);
+      case 'I':
+        return pad(hours12);
+      case 'j':
+        return pad(t.yearDay + 1, 3);
+      case 'k':
+        return pad(t.hours, 2, ' ');
+      case 'l':
+        return pad(hours12, 2, ' ');
+      case 'm':
+        return pad(t.month + 1);
+      case 'M':
+        return pad(t.minutes);
+      case 'n':
+        return '\n';
+      case 'p':
+        return t.hours < 12 ? 'AM' : 'PM';
+      case 'P':
+        return t.hours < 12 ? 'am' : 'pm';
+      case 'r':
+        return strftime('%I:%M:%S %p', date, gmt);
+      case 'R':
+        return strftime('%H:%M', date, gmt);
+      case 's':
+        return String(Math.floor(date.getTime() / 1000));
+      case 'S':
+        return pad(t.seconds);
+      case 't':
+        return '\t';
+      case 'T':
+      case 'X':
+        return strftime('%H:%M:%S', date, gmt);
+      case 'u':
+        return String(t.weekday || 7);
+      case 'U':
+        return pad(Math.floor((t.yearDay + 7 - t.weekday) / 7));
+      case 'V':
+        return pad(getIsoWeek(t).week);
+      case 'w':
+        return String(t.weekday);
+      case 'W':
+        return pad(Math.floor((t.yearDay + 7 - ((t.weekday + 6) % 7)) / 7));
+      case 'y':
+        return pad(t.year % 100);
+      case 'Y':
+        return String(t.year);
+      case 'z': {
+        const offset = Math.abs(t.offset);
+        return `${t.offset < 0 ? '-' : '+'}${pad(Math.floor(offset / 60))}${pad(offset % 60)}`;
+      }
+      case 'Z':
+        return t.zone;
+      case '%':
+        return '%';
+      default:
+        return undefined;
+    }
+  };
+
+  return format.replace(/%([a-zA-Z%])/g, (match, specifier: string) => {
+    return convert(specifier) ?? match;
+  });
+}
+
+/**
+ * Formats a file size like Apache's `apr_strfsize`, e.g. `  1K` or `1.5M`
+ */
+function abbreviateSize(size: number): string {
+  const orders = 'KMGTPE';
+  if (size < 973) {
+    return `${pad(size, 3, ' ')} `;
+  }
+  for (let order = 0; ; order++) {
+    let remain = size % 1024;
+    size = Math.floor(size / 1024);
+    if (size >= 973) {
+      continue;
+    }
+    if (size < 9 || (size === 9 && remain < 973)) {
+      remain = Math.floor((remain * 5 + 256) / 512);
+      if (remain >= 10) {
+        size++;
+        remain = 0;
+      }
+      return `${size}.${remain}${orders[order]}`;
+    }
+    if (remain >= 512) {
+      size++;
+    }
+    return `${pad(size, 3, ' ')}${orders[order]}`;
+  }
+}
+
+/**
+ * Formats a file size for output according to `config sizefmt`
+ */
+export function formatSize(size: number, sizeFormat: SizeFormat): string {
+  if (sizeFormat === 'abbrev') {
+    return abbreviateSize(size);
+  }
+  // Apache groups the byte count with commas
+  return String(size).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+/**
+ * Checks if a string is a supported `sizefmt`
+ */
+export function isSizeFormat(value: string): value is SizeFormat {
+  return value === 'bytes' || value === 'abbrev';
+}
@@ -0,0 +1,155 @@
+/**
+ * Loading of fragment modules through Vite: `ssrLoadModule` in dev, so edits are
+ * picked up on reload, and a bundled SSR build in `vite build`
+ */
+import {
+  build,
+  loadConfigFromFile,
+  mergeConfig,
+  type InlineConfig,
+  type ModuleNode,
+  type Plugin,
+  type PluginOption,
+  type ResolvedConfig,
+  type Rollup,
+  type ViteDevServer,
+} from 'vite';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { FragmentImporter, ImportedFragment } from './fragments';
+
+/**
+ * Checks if a module id is a source file of the project rather than a dependency
+ */
+function isProjectFile(file: string): boolean {
+  return path.isAbsolute(file) && !file.split(/[\\/]/).includes('node_modules');
+}
+
+/**
+ * Imports fragment modules with the dev server's `ssrLoadModule`. The module and
+ * everything it imports from the project are returned as dependencies, so changes
+ * to any of them reload the pages including the fragment.
+ */
+export function createSsrFragmentImporter(server: ViteDevServer): FragmentImporter {
+  return async (file) => {
+    const exports = await server.ssrLoadModule(file);
+
+    const deps = new Set<string>();
+    const visit = (module: ModuleNode) => {
+      if (!module.file || deps.has(module.file) || !isProjectFile(module.file)) {
+        return;
+      }
+      deps.add(module.file);
+      module.ssrImportedModules.forEach(visit);
+    };
+    server.moduleGraph.getModulesByFile(file)?.forEach(visit);
+
+    return { exports, deps: Array.from(deps) };
+  };
+}
+
+/**
+ * Flattens nested and async plugin options into plugins
+ */
+async function flattenPlugins(options: PluginOption[]): Promise<Plugin[]> {
+  const plugins: Plugin[] = [];
+  for (const option of await Promise.all(options)) {
+    if (Array.isArray(option)) {
+      plugins.push(...(await flattenPlugins(option)));
+    } else if (option) {
+      plugins.push(option);
+    }
+  }
+  return plugins;
+}
+
+/**
+ * Loads the config the project was built with, from its config file and inline
+ * config, for the builds of fragment modules. The config file is loaded again so
+ * its plugins are new instances rather than those of the running build. This plugin
+ * is left out, and so are the build options, which are set for each fragment.
+ */
+async function loadFragmentConfig(config: ResolvedConfig): Promise<InlineConfig> {
+  const loaded = config.configFile
+    ? await loadConfigFromFile(
+        { command: 'build', mode: config.mode },
+        config.configFile,
+        config.root,
+        'silent'
+      )
+    : null;
+  const { plugins = [], ...userConfig } = mergeConfig(loaded?.config ?? {}, config.inlineConfig);
+  return {
+    ...userConfig,
+    plugins: (await flattenPlugins(plugins)).filter(({ name }) => name !== 'vite-plugin-ssi'),
+    build: undefined,
+  };
+}
+
+/**
+ * Bundles a fragment module with an SSR build and imports the result from Vite's
+ * cache directory, where dependencies that were kept external still resolve
+ */
+async function bundleFragment(
+  userConfig: InlineConfig,
+  config: ResolvedConfig,
+  file: string,
+  outDir: string
+): Promise<ImportedFragment> {
+  const result = (await build({
+    ...userConfig,
+    configFile: false,
+    root: config.root,
+    mode: config.mode,
+    logLevel: 'silent',
+    publicDir: false,
+    build: {
+      ssr: file,
+      write: false,
+      rollupOptions: {
+        output: { format: 'es', entryFileNames: '[name].mjs', chunkFileNames: '[name]-[hash].mjs' },
+      },
+    },
+  })) as Rollup.RollupOutput | Rollup.RollupOutput[];
+  const { output } = Array.isArray(result) ? result[0] : result;
+
+  const chunks = output.filter((item) => item.type === 'chunk');
+  const hash = createHash('sha256');
+  chunks.forEach((chunk) => hash.update(chunk.fileName).update(chunk.code));
+  const dir = path.join(outDir, hash.digest('hex').slice(0, 16));
+
+  await fs.mkdir(dir, { recursive: true });
+  for (const chunk of chunks) {
+    await fs.writeFile(path.join(dir, chunk.fileName), chunk.code);
+  }
+
+  const entry = chunks.find((chunk) => chunk.isEntry) ?? chunks[0];
+  const exports = await import(pathToFileURL(path.join(dir, entry.fileName)).href);
+  const deps = chunks.flatMap((chunk) => chunk.moduleIds).filter(isProjectFile);
+  return { exports, deps };
+}
+
+/**
+ * Imports fragment modules by bundling each with an SSR build, once per importer.
+ * The builds use the project's config and plugins, except for this plugin.
+ */
+export function createBundledFragmentImporter(config: ResolvedConfig): FragmentImporter {
+  const outDir = path.join(config.cacheDir, 'ssi-fragments');
+  const bundles = new Map<string, Promise<ImportedFragment>>();
+  // Bundles from previous builds are removed before the first one is written
+  let prepared: Promise<InlineConfig> | undefined;
+
+  return (file) => {
+    let bundle = bundles.get(file);
+    if (!bundle) {
+      prepared ??= fs
+        .rm(outDir, { recursive: true, force: true })
+        .then(() => loadFragmentConfig(config));
+      bundle = prepared.then((userConfig) => bundleFragment(userConfig, config, file, outDir));
+      bundles.set(file, bundle);
+    }
+    return bundle;
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Fragment includes: `virtual` paths under a configured prefix, such as
+ * `/_fragments/latest-posts`, rendered by the default export of a module
+ */
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * What a fragment module's default export is called with
+ */
+export interface FragmentContext {
+  /** The `virtual` path as written, after variable substitution, e.g. `/_fragments/posts?limit=3` */
+  path: string;
+  /** Query parameters of the path */
+  query: URLSearchParams;
+  /** Normalized path or id of the file containing the include */
+  importer: string;
+  /** The SSI variables when the fragment is included */
+  variables: Record<string, string>;
+}
+
+/**
+ * Default export of a fragment module; a string export is inlined as-is
+ */
+export type FragmentHandler = (context: FragmentContext) => string | Promise<string>;
+
+/**
+ * A loaded fragment module
+ */
+export interface ImportedFragment {
+  exports: Record<string, unknown>;
+  /** Files the module was loaded from, tracked as dependencies of the page */
+  deps?: string[];
+}
+
+/**
+ * Imports a fragment module by absolute path, e.g. with `ssrLoadModule` in dev
+ */
+export type FragmentImporter = (file: string) => Promise<ImportedFragment>;
+
+export interface FragmentOptions {
+  /** `virtual` path prefixes mapped to directories of fragment modules, relative to the root */
+  routes: Record<string, string>;
+  importModule: FragmentImporter;
+}
+
+/**
+ * Extensions tried, in order, for the module of a fragment
+ */
+const FRAGMENT_EXTENSIONS = ['.ts', '.mts', '.tsx', '.js', '.mjs', '.jsx'];
+
+/**
+ * Finds the route prefix a `virtual` path falls under; longer prefixes take precedence
+ */
+export function matchFragmentRoute(
+  includePath: string,
+  routes: Record<string, string>
+): string | undefined {
+  const prefixes = Object.keys(routes).sort((a, b) => b.length - a.length);
+  return prefixes.find((prefix) =>
+    includePath.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)
+  );
+}
+
+/**
+ * Finds the module serving a `virtual` path, e.g. `src/fragments/latest-posts.ts` for
+ * `/_fragments/latest-posts`. Returns undefined when no route matches the path, and
+ * null when a route matches but there is no module for it.
+ */
+export async function resolveFragment(
+  includePath: string,
+  routes: Record<string, string>,
+  root: string
+): Promise<{ file: string; query: URLSearchParams } | null | undefined> {
+  const queryIndex = includePath.indexOf('?');
+  const pathname = queryIndex === -1 ? includePath : includePath.slice(0, queryIndex);
+  const search = queryIndex === -1 ? '' : includePath.slice(queryIndex + 1);
+
+  const prefix = matchFragmentRoute(pathname, routes);
+  if (prefix === undefined) {
+    return undefined;
+  }
+
+  const base = prefix.endsWith('/') ? prefix : `${prefix}/`;
+  const name = pathname.slice(base.length);
+  if (!name || name.split('/').some((segment) => segment === '' || segment === '..')) {
+    return null;
+  }
+  const dir = path.resolve(root, routes[prefix]);
+  const candidates = [
+    ...FRAGMENT_EXTENSIONS.map((ext) => path.join(dir, `${name}${ext}`)),
+    ...FRAGMENT_EXTENSIONS.map((ext) => path.join(dir, name, `index${ext}`)),
+  ];
+  for (const file of candidates) {
+    const found = await fs.stat(file).then(
+      (stats) => stats.isFile(),
+      () => false
+    );
+    if (found) {
+      return { file, query: new URLSearchParams(search) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Renders the default export of a fragment module
+ *
+ * @throws Error if the module has no default export of a supported type
+ */
+export async function renderFragment(
+  exports: Record<string, unknown>,
+  context: FragmentContext
+): Promise<string> {
+  const handler = exports.default;
+  if (typeof handler === 'function') {
+    return String(await (handler as FragmentHandler)(context));
+  }
+  if (typeof handler === 'string') {
+    return handler;
+  }
+  throw new Error('Fragment modules must export a function or a string as default');
+}
@@ -0,0 +1,101 @@
+/**
+ * Which files include which, kept in sync with every render so HMR only reloads
+ * the pages an edit actually affects
+ */
+
+/**
+ * Bidirectional graph from files to the files their output depends on. Files are
+ * identified by normalized path or include id.
+ */
+export interface IncludeGraph {
+  /**
+   * Replaces the dependencies of a file, e.g. a page after it was rendered
+   * @returns Dependencies the file did not have before, and those it no longer has
+   */
+  update(file: string, deps: Iterable<string>): { added: string[]; removed: string[] };
+  /** Files the output of a file depends on */
+  getDependencies(file: string): Set<string>;
+  /** Files that depend on a file directly */
+  getImporters(file: string): Set<string>;
+  /**
+   * Files that depend on a file directly or through other files, e.g. the pages a
+   * partial affects, nearest first
+   */
+  getAffected(file: string): Set<string>;
+  /**
+   * Forgets the dependencies of a deleted file. Files that depended on it keep the
+   * dependency until they are rendered again, so they can still be found and reloaded.
+   */
+  remove(file: string): void;
+}
+
+/**
+ * Creates an empty include graph
+ */
+export function createIncludeGraph(): IncludeGraph {
+  const dependencies = new Map<string, Set<string>>();
+  const importers = new Map<string, Set<string>>();
+
+  const link = (file: string, dep: string) => {
+    let fileImporters = importers.get(dep);
+    if (!fileImporters) {
+      fileImporters = new Set();
+      importers.set(dep, fileImporters);
+    }
+    fileImporters.add(file);
+  };
+
+  const unlink = (file: string, dep: string) => {
+    const fileImporters = importers.get(dep);
+    fileImporters?.delete(file);
+    if (fileImporters?.size === 0) {
+      importers.delete(dep);
+    }
+  };
+
+  return {
+    update(file, deps) {
+      const previous = dependencies.get(file) ?? new Set<string>();
+      const next = new Set(deps);
+      const added = Array.from(next).filter((dep) => !previous.has(dep));
+      const removed = Array.from(previous).filter((dep) => !next.has(dep));
+
+      added.forEach((dep) => link(file, dep));
+      removed.forEach((dep) => unlink(file, dep));
+      if (next.size > 0) {
+        dependencies.set(file, next);
+      } else {
+        dependencies.delete(file);
+      }
+      return { added, removed };
+    },
+
+    getDependencies(file) {
+      return new Set(dependencies.get(file));
+    },
+
+    getImporters(file) {
+      return new Set(importers.get(file));
+    },
+
+    getAffected(file) {
+      const affected = new Set<string>();
+      // Breadth-first, so direct importers come first; cycles end at visited files
+      const queue = [file];
+      for (let index = 0; index < queue.length; index++) {
+        for (const importer of importers.get(queue[index]) ?? []) {
+          if (importer !== file && !affected.has(importer)) {
+            affected.add(importer);
+            queue.push(importer);
+          }
+        }
+      }
+      return affected;
+    },
+
+    remove(file) {
+      dependencies.get(file)?.forEach((dep) => unlink(file, dep));
+      dependencies.delete(file);
+    },
+  };
+}
@@ -1,9 +1,42 @@
-import type { Plugin } from 'vite';
+import {
+  createFilter,
+  type IndexHtmlTransformHook,
+  type Plugin,
+  type ProxyOptions,
+  type ResolvedConfig,
+} from 'vite';
 import * as path from 'path';
 import { DEFAULT_FILE_TYPE_MAP, type FileTypeMap } from './file-types';
-import { normalizePath, processSsi } from './ssi';
-import { setupPreviewServer, handleHotUpdate, transformIndexHtml } from './dev-server';
+import { normalizePath } from './ssi';
+import {
+  setupDevServer,
+  setupPreviewServer,
+  handleHotUpdate,
+  reloadPages,
+  reloadsByItself,
+  transformIndexHtml,
+  reportDiagnostics,
+} from './dev-server';
 import type { ProcessSsiOptions } from './ssi';
+import type { IncludeLoaderOptions } from './loader';
+import type { IncludeTransforms } from './transforms';
+import { validateDirectives, type SsiDirectives } from './directives';
+import { createSsiCache } from './cache';
+import { createIncludeGraph } from './include-graph';
+import { createBundledFragmentImporter, createSsrFragmentImporter } from './fragment-modules';
+import {
+  createRemoteRoutes,
+  DEFAULT_REMOTE_TIMEOUT,
+  type RemoteIncludeOptions,
+  type RemoteIncludeRoute,
+} from './remote';
+import {
+  formatDiagnostic,
+  getErrorMode,
+  summarizeDiagnostics,
+  type SsiDiagnostic,
+  type SsiErrorHandling,
+} from './diagnostics';
 
 /**
  * File type to extension mappings for intelligent SSI processing.
@@ -20,6 +53,72 @@ import type { ProcessSsiOptions } from './ssi';
  */
 export type { FileTypeMap } from './file-types';
 
+/**
+ * Parses an SSI template into a tree of text, directive, conditional, block and
+ * error nodes. Every node carries the start and end offsets of its source.
+ *
+ * @example
+ * ```ts
+ * const { nodes, errors } = parseSsi('<!--#include virtual="/header.html" -->');
+ * ```
+ */
+export { parseSsi, getAttribute } from './parser';
+export type {
+  SsiDocument,
+  SsiNode,
+  SsiTextNode,
+  SsiDirectiveNode,
+  SsiAttribute,
+  SsiConditionalNode,
+  SsiConditionalBranch,
+  SsiBlockNode,
+  SsiErrorNode,
+  SsiParseError,
+  SourceRange,
+} from './parser';
+
+/**
+ * Renders an SSI template string with the same engine as the plugin.
+ *
+ * @example
+ * ```ts
+ * const { code, deps } = await renderSsi(template, {
+ *   root: '/path/to/site',
+ *   variables: { title: 'Home' },
+ * });
+ * ```
+ */
+export { renderSsi } from './ssi';
+export type { RenderSsiOptions, ProcessResult } from './ssi';
+export type { SsiRequest } from './variables';
+export type { ResolveIncludeHook, LoadIncludeHook } from './loader';
+export type {
+  SsiDiagnostic,
+  SsiDiagnosticCategory,
+  SsiErrorMode,
+  SsiErrorHandling,
+} from './diagnostics';
+
+/**
+ * Built-in transforms for `includeTransforms`
+ *
+ * @example
+ * ```ts
+ * includeTransforms: { markdown: markdownTransform(), json: jsonTransform({ indent: 4 }) }
+ * ```
+ */
+export { markdownTransform, jsonTransform } from './transforms';
+export type {
+  IncludeTransform,
+  IncludeTransforms,
+  IncludeTransformContext,
+  JsonTransformOptions,
+} from './transforms';
+
+export type { SsiDirectives, SsiDirectiveHandler, SsiDirectiveContext } from './directives';
+export type { FragmentContext, FragmentHandler } from './fragments';
+export type { RemoteIncludeRoute } from './remote';
+
 /**
  * Configuration options for the Vite SSI plugin.
  *
@@ -66,6 +165,170 @@ export interface VitePluginSsiOptions {
    * Allows overriding or extending the default mappings
    */
   fileTypeMap?: FileTypeMap;
+
+  /**
+   * Maximum length of parameter values in SSI commands, like Nginx's `ssi_value_length`
+   * Longer values are reported as an SSI error
+   * @default 256
+   */
+  valueLength?: number;
+
+  /**
+   * Maximum number of include targets read at once while a page renders.
+   * Includes are still rendered in document order; `1` reads them one by one.
+   * @default 8
+   */
+  concurrency?: number;
+
+  /**
+   * Rewrite relative `src`, `href` and `srcset` attributes and CSS `url()` references in
+   * included HTML and Markdown files, so they point next to the included file rather
+   * than the page. Markdown is rewritten once `includeTransforms` rendered it to HTML.
+   * `<img src="logo.svg">` in `/components/header.html` becomes
+   * `<img src="../components/logo.svg">` when included from `/docs/index.html`.
+   * Includes are then inlined before Vite's HTML asset pipeline runs, so the referenced
+   * assets are bundled in build.
+   * @default false
+   */
+  rebaseUrls?: boolean;
+
+  /**
+   * Transforms applied to included files by file type name from `fileTypeMap`, after
+   * their SSI directives are processed. The first matching entry applies, and a transform
+   * that throws is reported as an SSI error in the `transform` category.
+   * @default {}
+   *
+   * @example
+   * ```ts
+   * includeTransforms: {
+   *   markdown: markdownTransform(),
+   *   json: jsonTransform(),
+   * }
+   * ```
+   */
+  includeTransforms?: IncludeTransforms;
+
+  /**
+   * Handlers for project-specific commands, by name. A handler receives the directive's
+   * attributes, with variables substituted, and a context to read and set variables,
+   * resolve and load files, add dependencies and report errors. Its result is output
+   * in place of the directive. Built-in commands and the `if` and `block` commands are
+   * reserved, and registering one of them throws.
+   * @default {}
+   *
+   * @example
+   * ```ts
+   * directives: {
+   *   // <!--#icon name="menu" -->
+   *   icon: async ({ name }, ctx) => {
+   *     const file = await ctx.resolve(`/icons/${name}.svg`);
+   *     return file ? ctx.load(file) : ctx.error(`Unknown icon: ${name}`);
+   *   },
+   * }
+   * ```
+   */
+  directives?: SsiDirectives;
+
+  /**
+   * `virtual` path prefixes served by modules, mapped to the directories holding them,
+   * relative to the root. `/_fragments/latest-posts?limit=3` is rendered by the default
+   * export of `latest-posts.ts` (or `.js`, or `latest-posts/index.ts`), which is called
+   * with the path, its query and the SSI variables, and returns the HTML to include.
+   * Modules are loaded with `ssrLoadModule` in dev, so edits reload the page, and
+   * bundled with an SSR build using the project's config and plugins in `vite build`
+   * and `vite preview`.
+   * @default {}
+   *
+   * @example
+   * ```ts
+   * fragments: { '/_fragments/': 'src/fragments' }
+   * ```
+   */
+  fragments?: Record<string, string>;
+
+  /**
+   * `virtual` path prefixes fetched over HTTP from a backend, like Nginx proxying a
+   * subrequest. Keys work like `server.proxy`: keys starting with `^` are regular
+   * expressions, and values are a target origin or `{ target, rewrite, headers, timeout }`.
+   * `server.proxy` rules (`preview.proxy` in preview) with a URL target are used too.
+   * The page request's headers, such as cookies, are forwarded. A failed request is
+   * reported as a `remote` error and falls back to the include's `stub` block.
+   * In build, matching includes are left in the output for the server to resolve.
+   * @default {}
+   *
+   * @example
+   * ```ts
+   * remoteIncludes: { '/api/': 'http://localhost:8080' }
+   * ```
+   */
+  remoteIncludes?: Record<string, string | RemoteIncludeRoute>;
+
+  /**
+   * Milliseconds before a remote include is aborted, unless its route sets a timeout
+   * @default 5000
+   */
+  remoteTimeout?: number;
+
+  /**
+   * What to do when an include is missing, a cycle or the depth limit is hit, or a
+   * directive is invalid. Either one mode, or modes per category with a `default`:
+   * - `'comment'`: output an error comment and show the error in the overlay or as a build warning
+   * - `'warn'`: output nothing, but still show the error
+   * - `'silent'`: output nothing, like Nginx's `ssi_silent_errors`
+   * - `'throw'`: fail `vite build` with a summary of every error across all pages
+   * @default 'comment'
+   *
+   * @example
+   * ```ts
+   * onError: { missing: 'throw', depth: 'warn' }
+   * ```
+   */
+  onError?: SsiErrorHandling;
+
+  /**
+   * Directories outside the Vite root that includes may be read from, relative to the root.
+   * Includes are confined to the root, these directories and Vite's `server.fs.allow`,
+   * and files matching `server.fs.deny` can never be included.
+   * @default []
+   */
+  allowedDirs?: string[];
+
+  /**
+   * Directories searched, in order, for bare `virtual` names such as `header.html`
+   * that do not exist next to the including file, like Sass load paths.
+   * Relative to the root. Vite's `resolve.alias` and `publicDir` are always applied.
+   * @default []
+   */
+  includePaths?: string[];
+
+  /**
+   * Resolves an include path to an id before the default resolution, e.g. to map
+   * includes to another plugin's virtual modules. Return `null` to fall back.
+   *
+   * @example
+   * ```ts
+   * resolveInclude: (includePath) =>
+   *   includePath.startsWith('/cms/') ? `\0cms:${includePath}` : null
+   * ```
+   */
+  resolveInclude?: IncludeLoaderOptions['resolveInclude'];
+
+  /**
+   * Loads the content of a resolved include id. Return `null` to fall back to
+   * `files` and then to the file system.
+   */
+  loadInclude?: IncludeLoaderOptions['loadInclude'];
+
+  /**
+   * In-memory files that can be included, keyed by path relative to the project root.
+   * They take precedence over files on disk.
+   *
+   * @example
+   * ```ts
+   * files: { '/partials/banner.html': '<div class="banner">Sale</div>' }
+   * ```
+   */
+  files?: Record<string, string>;
 }
 
 /**
@@ -164,37 +427,194 @@ export default function vitePluginSsi(options: VitePluginSsiOptions = {}): Plugi
     apply: applyOption,
     includeFileTypes = [],
     fileTypeMap,
+    valueLength,
+    concurrency,
+    rebaseUrls,
+    includeTransforms,
+    directives,
+    fragments,
+    remoteIncludes = {},
+    remoteTimeout = DEFAULT_REMOTE_TIMEOUT,
+    onError,
+    allowedDirs = [],
+    includePaths,
+    resolveInclude,
+    loadInclude,
+    files,
   } = options;
 
+  // Reserved names are reported when the plugin is created rather than on first render
+  validateDirectives(directives ?? {});
+
+  const loaderOptions: IncludeLoaderOptions = { resolveInclude, loadInclude, files };
+
+  // Include resolution and sandbox, completed from the Vite config once it is known
+  const configOptions: Pick<
+    ProcessSsiOptions,
+    'allowedDirs' | 'deny' | 'alias' | 'includePaths' | 'publicDir' | 'fragments' | 'remote'
+  > = { allowedDirs, includePaths };
+
   // Merge user's file type map with defaults
   const mergedFileTypeMap: FileTypeMap = {
     ...DEFAULT_FILE_TYPE_MAP,
     ...fileTypeMap,
   };
 
-  // Dependency graph: maps HTML file path to set of dependent file paths
-  const dependencyGraph = new Map<string, Set<string>>();
+  // Include graph: which HTML files depend on which includes, updated on every transform
+  const includeGraph = createIncludeGraph();
+
+  // Raw and parsed includes shared by every page, invalidated by the watcher
+  const cache = createSsiCache();
 
-  // Reverse dependency map: maps dependent file to set of HTML files that depend on it
-  const reverseDependencyMap = new Map<string, Set<string>>();
+  // Diagnostics collected while transforming HTML in build, reported with the bundle
+  let buildDiagnostics: SsiDiagnostic[] = [];
 
   let server: import('vite').ViteDevServer | undefined;
   let command: 'serve' | 'build' | 'preview' = 'serve';
   let resolvedRoot: string | undefined;
+  let resolvedConfig: ResolvedConfig | undefined;
+
+  // Remote includes from remoteIncludes and the proxy rules of the current server
+  const createRemoteOptions = (
+    proxy: Record<string, string | ProxyOptions> | undefined,
+    keep: boolean
+  ): RemoteIncludeOptions | undefined => {
+    const routes = createRemoteRoutes(remoteIncludes, proxy);
+    return Object.keys(routes).length > 0 ? { routes, timeout: remoteTimeout, keep } : undefined;
+  };
+
+  // Renders SSI in a page, tracks its includes for HMR and reports its errors
+  const transformHtml: IndexHtmlTransformHook = async (html, ctx) => {
+    // Check if should apply in current environment
+    // For preview, transformIndexHtml should also work
+    const currentCommand = ctx.server
+      ? (ctx.server.config.command as 'serve' | 'build' | 'preview') || 'serve'
+      : command;
+    if (!shouldApplyInEnvironment(applyOption, currentCommand)) {
+      return html;
+    }
+
+    const root = ctx.server?.config.root || resolvedRoot || process.cwd();
+
+    // Process HTML with SSI, collecting the dependencies for tracking in the same pass
+    const result = await transformIndexHtml(html, ctx, {
+      root,
+      maxDepth,
+      includeFileTypes,
+      fileTypeMap: mergedFileTypeMap,
+      valueLength,
+      concurrency,
+      rebaseUrls,
+      includeTransforms,
+      directives,
+      cache,
+      onError,
+      ...loaderOptions,
+      ...configOptions,
+    });
+
+    // Update include graph, dropping includes the page no longer has
+    const filename = ctx.filename || 'index.html';
+    const filePath = path.isAbsolute(filename) ? filename : path.resolve(root, filename);
+    const { added } = includeGraph.update(normalizePath(filePath), result.deps);
+
+    // Surface errors in the dev error overlay, or in the build
+    const diagnostics = result.diagnostics.filter(
+      (diagnostic) => getErrorMode(onError, diagnostic.category) !== 'silent'
+    );
+    if (ctx.server) {
+      reportDiagnostics(ctx.server, diagnostics);
+    } else {
+      buildDiagnostics.push(...diagnostics);
+    }
+
+    // Vite only watches the root, so includes from elsewhere, such as partials in
+    // linked workspace packages, are added to the watcher to trigger HMR. Missing
+    // includes are among the dependencies and are watched wherever they are, since
+    // their directory may not exist yet. Watching a watched file does nothing.
+    if (ctx.server) {
+      const files = added.filter((dep) => path.isAbsolute(dep));
+      if (files.length > 0) {
+        ctx.server.watcher.add(files);
+      }
+    }
+
+    return result.code;
+  };
 
   return {
     name: 'vite-plugin-ssi',
     enforce,
     apply: normalizeApplyOption(applyOption),
 
+    config(userConfig) {
+      // The resolved server.fs.allow defaults to the workspace root, so only
+      // directories the user listed explicitly widen the sandbox
+      configOptions.allowedDirs = [...allowedDirs, ...(userConfig.server?.fs?.allow ?? [])];
+    },
+
     configResolved(config) {
       // Determine command from config
       command = (config.command as 'serve' | 'build' | 'preview') || 'serve';
       resolvedRoot = config.root;
+      resolvedConfig = config;
+      configOptions.alias = config.resolve.alias;
+      configOptions.publicDir = config.publicDir || undefined;
+
+      // Like Vite, deny patterns without a slash match the file name anywhere
+      const denyPatterns = config.server.fs.deny.map((pattern) =>
+        pattern.includes('/') ? pattern : `**/${pattern}`
+      );
+      // An empty include list would make the filter match every file
+      configOptions.deny =
+        denyPatterns.length > 0 ? createFilter(denyPatterns, null, { resolve: false }) : undefined;
+
+      // The build keeps remote includes for the server that serves it
+      configOptions.remote = createRemoteOptions(config.server.proxy, config.command === 'build');
+    },
+
+    buildStart() {
+      buildDiagnostics = [];
+      // Fragment modules are bundled again for every build
+      if (fragments && command === 'build' && resolvedConfig) {
+        configOptions.fragments = {
+          routes: fragments,
+          importModule: createBundledFragmentImporter(resolvedConfig),
+        };
+      }
     },
 
     configureServer(_server) {
       server = _server;
+      setupDevServer(_server);
+      // Edits are usually caught by the modification time as well, but not when they
+      // land within its resolution
+      for (const event of ['add', 'change', 'unlink'] as const) {
+        _server.watcher.on(event, (file: string) => cache.invalidate(file));
+      }
+      // handleHotUpdate only runs for edits. Pages including a created file, such as a
+      // partial whose mistyped path was fixed, are reloaded to include it.
+      _server.watcher.on('add', (file: string) => {
+        if (shouldApplyInEnvironment(applyOption, command) && !reloadsByItself(_server, file)) {
+          reloadPages(_server, includeGraph.getAffected(normalizePath(file)));
+        }
+      });
+      // A deleted page leaves the include graph, and pages including a deleted file are
+      // reloaded to report it missing. Renames are reported as an unlink and an add.
+      _server.watcher.on('unlink', (file: string) => {
+        const deleted = normalizePath(file);
+        const affected = includeGraph.getAffected(deleted);
+        includeGraph.remove(deleted);
+        if (shouldApplyInEnvironment(applyOption, command) && !reloadsByItself(_server, file)) {
+          reloadPages(_server, affected);
+        }
+      });
+      if (fragments) {
+        configOptions.fragments = {
+          routes: fragments,
+          importModule: createSsrFragmentImporter(_server),
+        };
+      }
     },
 
     configurePreviewServer(previewServer) {
@@ -204,57 +624,64 @@ export default function vitePluginSsi(options: VitePluginSsiOptions = {}): Plugi
         return () => {};
       }
 
+      configOptions.remote = createRemoteOptions(previewServer.config.preview.proxy, false);
+      // Fragment includes left in the built HTML are bundled as in build
+      if (fragments) {
+        configOptions.fragments = {
+          routes: fragments,
+          importModule: createBundledFragmentImporter(previewServer.config),
+        };
+      }
       setupPreviewServer(previewServer, {
         maxDepth,
         includeFileTypes,
         fileTypeMap: mergedFileTypeMap,
+        valueLength,
+        concurrency,
+        rebaseUrls,
+        includeTransforms,
+        directives,
+        cache,
+        onError,
+        ...loaderOptions,
+        ...configOptions,
       });
     },
 
-    async transformIndexHtml(html, ctx) {
-      // Check if should apply in current environment
-      // For preview, transformIndexHtml should also work
-      const currentCommand = ctx.server
-        ? (ctx.server.config.command as 'serve' | 'build' | 'preview') || 'serve'
-        : command;
-      if (!shouldApplyInEnvironment(applyOption, currentCommand)) {
-        return html;
-      }
-
-      const root = ctx.server?.config.root || resolvedRoot || process.cwd();
-
-      // Process HTML with SSI
-      const result = await transformIndexHtml(html, ctx, {
-        root,
-        maxDepth,
-        includeFileTypes,
-        fileTypeMap: mergedFileTypeMap,
-      });
-
-      // Update dependency graph (need to process again to get deps)
-      const filename = ctx.filename || 'index.html';
-      const filePath = path.isAbsolute(filename) ? filename : path.resolve(root, filename);
-      const normalizedFilePath = normalizePath(filePath);
-
-      // Re-process to get dependencies for tracking
-      const processOptions: ProcessSsiOptions = {
-        root,
-        maxDepth,
-        includeFileTypes,
-        fileTypeMap: mergedFileTypeMap,
-      };
-      const depsResult = await processSsi(filePath, html, processOptions);
-      dependencyGraph.set(normalizedFilePath, depsResult.deps);
+    // Rebased URLs of includes must be seen by Vite's HTML asset pipeline in build,
+    // which runs between pre and normal hooks
+    transformIndexHtml: rebaseUrls ? { order: 'pre', handler: transformHtml } : transformHtml,
+
+    generateBundle: {
+      // HTML is transformed while Vite's HTML plugin generates the bundle, and
+      // transformIndexHtml has no plugin context, so warnings are emitted after it
+      order: 'post',
+      handler() {
+        const root = resolvedRoot || process.cwd();
+        const failures: SsiDiagnostic[] = [];
+        for (const diagnostic of buildDiagnostics) {
+          if (getErrorMode(onError, diagnostic.category) === 'throw') {
+            failures.push(diagnostic);
+            continue;
+          }
+          this.warn({
+            message: formatDiagnostic(diagnostic, root),
+            id: diagnostic.file,
+            loc: { file: diagnostic.file, line: diagnostic.line, column: diagnostic.column - 1 },
+          });
+        }
+        buildDiagnostics = [];
 
-      // Update reverse dependency map
-      depsResult.deps.forEach((dep) => {
-        if (!reverseDependencyMap.has(dep)) {
-          reverseDependencyMap.set(dep, new Set());
+        // Every page has been transformed, so the summary covers the whole build
+        if (failures.length > 0) {
+          this.error(summarizeDiagnostics(failures, root));
         }
-        reverseDependencyMap.get(dep)!.add(normalizedFilePath);
-      });
+      },
+    },
 
-      return result;
+    watchChange(id) {
+      // Files edited during `vite build --watch`
+      cache.invalidate(id);
     },
 
     handleHotUpdate(ctx) {
@@ -267,7 +694,7 @@ export default function vitePluginSsi(options: VitePluginSsiOptions = {}): Plugi
         return;
       }
 
-      return handleHotUpdate(ctx, server, reverseDependencyMap);
+      return handleHotUpdate(ctx, server, includeGraph);
     },
   };
 }
@@ -0,0 +1,35 @@
+/**
+ * Bounded concurrency for reading include targets ahead of their turn
+ */
+
+/**
+ * Runs a task once fewer than the limit are pending
+ */
+export type Limit = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limit that runs at most `concurrency` tasks at once, starting queued
+ * tasks in the order they were added
+ */
+export function createLimit(concurrency: number): Limit {
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    active--;
+    queue.shift()?.();
+  };
+
+  return (task) =>
+    new Promise((resolve, reject) => {
+      const run = () => {
+        active++;
+        task().then(resolve, reject).finally(next);
+      };
+      if (active < concurrency) {
+        run();
+      } else {
+        queue.push(run);
+      }
+    });
+}
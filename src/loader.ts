@@ -0,0 +1,133 @@
+/**
+ * Pluggable resolution and loading of include targets, so includes can come
+ * from memory, a CMS export or another plugin's virtual modules instead of disk
+ */
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { SsiCache } from './cache';
+
+/**
+ * Resolves an include path as written in a directive to an id.
+ * Return `null` or `undefined` to fall back to the default resolution.
+ *
+ * @param includePath - The `virtual` or `file` value, after variable substitution
+ * @param importer - Id of the file containing the directive
+ */
+export type ResolveIncludeHook = (
+  includePath: string,
+  importer: string
+) => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Loads the content of a resolved include id.
+ * Return `null` or `undefined` to fall back to the file map and then to disk.
+ */
+export type LoadIncludeHook = (
+  id: string
+) => string | null | undefined | Promise<string | null | undefined>;
+
+export interface IncludeLoaderOptions {
+  resolveInclude?: ResolveIncludeHook;
+  loadInclude?: LoadIncludeHook;
+  /**
+   * In-memory files, keyed by path relative to the root (e.g. `/partials/header.html`).
+   * They take precedence over files on disk.
+   */
+  files?: Record<string, string>;
+}
+
+/**
+ * Size and modification time of an include. Includes from `loadInclude` or the
+ * file map are not files on disk, so they have no modification time.
+ */
+export interface IncludeStats {
+  /** Size in bytes */
+  size: number;
+  mtime?: Date;
+}
+
+/**
+ * Resolves and reads include targets for a single root
+ */
+export interface IncludeLoader {
+  /** Runs the `resolveInclude` hook; returns undefined when it defers to the default */
+  resolve(includePath: string, importer: string): Promise<string | undefined>;
+  /**
+   * Reads an include from the `loadInclude` hook, the file map or disk
+   * @throws Error if the include does not exist
+   */
+  load(id: string): Promise<string>;
+  /** Checks if a path is in the file map or on disk, without calling `loadInclude` */
+  exists(id: string): Promise<boolean>;
+  /**
+   * Gets the size and modification time of an include, from the same source as `load`
+   * @throws Error if the include does not exist
+   */
+  stat(id: string): Promise<IncludeStats>;
+}
+
+/**
+ * Normalizes an include id for comparison. Ids that are not absolute paths,
+ * such as virtual module ids, are kept as they are.
+ */
+export function normalizeId(id: string): string {
+  return path.isAbsolute(id) ? path.resolve(id).replace(/\\/g, '/') : id;
+}
+
+/**
+ * Creates the loader used to resolve and read includes below `root`. Files on disk
+ * are read through `cache` when one is given.
+ */
+export function createIncludeLoader(
+  root: string,
+  options: IncludeLoaderOptions,
+  cache?: SsiCache
+): IncludeLoader {
+  const { resolveInclude, loadInclude, files = {} } = options;
+
+  const fileMap = new Map<string, string>();
+  for (const [filePath, content] of Object.entries(files)) {
+    fileMap.set(normalizeId(path.join(root, filePath.replace(/^[\\/]+/, ''))), content);
+  }
+
+  return {
+    async resolve(includePath, importer) {
+      if (!resolveInclude) {
+        return undefined;
+      }
+      return (await resolveInclude(includePath, importer)) ?? undefined;
+    },
+
+    async load(id) {
+      const loaded = loadInclude ? await loadInclude(id) : undefined;
+      if (loaded !== null && loaded !== undefined) {
+        return loaded;
+      }
+      const inMemory = fileMap.get(normalizeId(id));
+      if (inMemory !== undefined) {
+        return inMemory;
+      }
+      return cache ? cache.read(id) : fs.readFile(id, 'utf-8');
+    },
+
+    async exists(id) {
+      if (fileMap.has(normalizeId(id))) {
+        return true;
+      }
+      return fs.access(id).then(
+        () => true,
+        () => false
+      );
+    },
+
+    async stat(id) {
+      const loaded = loadInclude ? await loadInclude(id) : undefined;
+      const content = loaded ?? fileMap.get(normalizeId(id));
+      if (content !== undefined) {
+        return { size: Buffer.byteLength(content) };
+      }
+      const stats = await fs.stat(id);
+      return { size: stats.size, mtime: stats.mtime };
+    },
+  };
+}
@@ -0,0 +1,379 @@
+/**
+ * Tokenizer and parser for SSI templates.
+ *
+ * `parseSsi` turns a template into a tree of text, directives, conditionals and
+ * blocks. Every node carries the offsets of the source it was parsed from, and
+ * malformed input is reported as error nodes rather than silently passed through.
+ */
+
+/**
+ * Start (inclusive) and end (exclusive) offsets in the parsed source
+ */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface SsiTextNode extends SourceRange {
+  type: 'text';
+  value: string;
+}
+
+export interface SsiAttribute extends SourceRange {
+  /** Lowercased attribute name */
+  name: string;
+  /** Unquoted and unescaped value */
+  value: string;
+}
+
+export interface SsiDirectiveNode extends SourceRange {
+  type: 'directive';
+  /** Lowercased command name, e.g. `include` */
+  name: string;
+  attributes: SsiAttribute[];
+  /** The directive exactly as written */
+  raw: string;
+}
+
+export interface SsiConditionalBranch {
+  /** The `if`, `elif` or `else` directive that opens the branch */
+  directive: SsiDirectiveNode;
+  children: SsiNode[];
+}
+
+/**
+ * An `if` ... `endif` block with its `elif` / `else` branches in order
+ */
+export interface SsiConditionalNode extends SourceRange {
+  type: 'if';
+  branches: SsiConditionalBranch[];
+}
+
+/**
+ * A `block` ... `endblock` definition
+ */
+export interface SsiBlockNode extends SourceRange {
+  type: 'block';
+  name: string;
+  directive: SsiDirectiveNode;
+  children: SsiNode[];
+}
+
+/**
+ * A malformed directive or unbalanced structure, rendered as an SSI error
+ */
+export interface SsiErrorNode extends SourceRange {
+  type: 'error';
+  message: string;
+}
+
+export type SsiNode =
+  | SsiTextNode
+  | SsiDirectiveNode
+  | SsiConditionalNode
+  | SsiBlockNode
+  | SsiErrorNode;
+
+/**
+ * A parse error with the offsets of the offending source
+ */
+export interface SsiParseError extends SourceRange {
+  message: string;
+}
+
+export interface SsiDocument {
+  nodes: SsiNode[];
+  /** Every error node in the tree, in the order they were detected */
+  errors: SsiParseError[];
+}
+
+type SsiToken = SsiTextNode | SsiDirectiveNode | SsiErrorNode;
+
+const DIRECTIVE_OPEN = '<!--#';
+const DIRECTIVE_CLOSE = '-->';
+const QUOTES = ['"', "'", '`'];
+
+/**
+ * Gets the value of a directive attribute; the last occurrence wins
+ */
+export function getAttribute(directive: SsiDirectiveNode, name: string): string | undefined {
+  let value: string | undefined;
+  for (const attribute of directive.attributes) {
+    if (attribute.name === name) {
+      value = attribute.value;
+    }
+  }
+  return value;
+}
+
+/**
+ * Reads a name (`[A-Za-z_][A-Za-z0-9_]*`) starting at `start`
+ */
+function readName(source: string, start: number): string {
+  const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(start, start + 64));
+  return match ? match[0] : '';
+}
+
+function skipWhitespace(source: string, position: number): number {
+  while (position < source.length && /\s/.test(source[position])) {
+    position++;
+  }
+  return position;
+}
+
+/**
+ * Lexes the directive starting at `start`, which must point at `<!--#`
+ */
+function lexDirective(source: string, start: number): SsiDirectiveNode | SsiErrorNode {
+  // On error, the whole comment is consumed if it is closed, otherwise only the opener
+  const fail = (message: string): SsiErrorNode => {
+    const close = source.indexOf(DIRECTIVE_CLOSE, start + DIRECTIVE_OPEN.length);
+    const end = close === -1 ? start + DIRECTIVE_OPEN.length : close + DIRECTIVE_CLOSE.length;
+    return { type: 'error', message, start, end };
+  };
+
+  let position = skipWhitespace(source, start + DIRECTIVE_OPEN.length);
+  const name = readName(source, position);
+  if (!name) {
+    return fail('Missing directive name');
+  }
+  position += name.length;
+
+  const attributes: SsiAttribute[] = [];
+  for (;;) {
+    const afterWhitespace = skipWhitespace(source, position);
+    if (source.startsWith(DIRECTIVE_CLOSE, afterWhitespace)) {
+      const end = afterWhitespace + DIRECTIVE_CLOSE.length;
+      return {
+        type: 'directive',
+        name: name.toLowerCase(),
+        attributes,
+        raw: source.slice(start, end),
+        start,
+        end,
+      };
+    }
+    if (afterWhitespace >= source.length) {
+      return fail(`Unterminated "${name}" directive`);
+    }
+    if (afterWhitespace === position && attributes.length > 0) {
+      return fail(`Expected whitespace between attributes in "${name}" directive`);
+    }
+    position = afterWhitespace;
+
+    const attributeStart = position;
+    const attributeName = readName(source, position);
+    if (!attributeName) {
+      return fail(`Unexpected character "${source[position]}" in "${name}" directive`);
+    }
+    position = skipWhitespace(source, position + attributeName.length);
+    if (source[position] !== '=') {
+      return fail(`Attribute "${attributeName}" has no value`);
+    }
+    position = skipWhitespace(source, position + 1);
+
+    let value = '';
+    const quote = source[position];
+    if (QUOTES.includes(quote)) {
+      // A backslash escapes the quote character; other backslashes are kept
+      position++;
+      for (;;) {
+        if (position >= source.length) {
+          return fail(`Unterminated value for attribute "${attributeName}"`);
+        }
+        const char = source[position];
+        if (char === '\\' && source[position + 1] === quote) {
+          value += quote;
+          position += 2;
+        } else if (char === quote) {
+          position++;
+          break;
+        } else {
+          value += char;
+          position++;
+        }
+      }
+    } else {
+      while (
+        position < source.length &&
+        !/\s/.test(source[position]) &&
+        !source.startsWith(DIRECTIVE_CLOSE, position)
+      ) {
+        value += source[position++];
+      }
+      if (!value) {
+        return fail(`Attribute "${attributeName}" has no value`);
+      }
+    }
+
+    attributes.push({
+      name: attributeName.toLowerCase(),
+      value,
+      start: attributeStart,
+      end: position,
+    });
+  }
+}
+
+/**
+ * Splits a template into text, directive and error tokens
+ */
+function tokenize(source: string): SsiToken[] {
+  const tokens: SsiToken[] = [];
+  let position = 0;
+
+  for (;;) {
+    const open = source.indexOf(DIRECTIVE_OPEN, position);
+    const textEnd = open === -1 ? source.length : open;
+    if (textEnd > position) {
+      tokens.push({
+        type: 'text',
+        value: source.slice(position, textEnd),
+        start: position,
+        end: textEnd,
+      });
+    }
+    if (open === -1) {
+      return tokens;
+    }
+
+    const token = lexDirective(source, open);
+    tokens.push(token);
+    position = token.end;
+  }
+}
+
+/**
+ * An open `if` or `block` while building the tree
+ */
+type OpenFrame =
+  | { type: 'if'; node: SsiConditionalNode; parent: SsiNode[]; hasElse: boolean }
+  | { type: 'block'; node: SsiBlockNode; parent: SsiNode[] };
+
+/**
+ * Parses an SSI template into a tree of nodes
+ */
+export function parseSsi(source: string): SsiDocument {
+  const nodes: SsiNode[] = [];
+  const errors: SsiParseError[] = [];
+  const stack: OpenFrame[] = [];
+
+  const currentChildren = (): SsiNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      return nodes;
+    }
+    return top.type === 'if'
+      ? top.node.branches[top.node.branches.length - 1].children
+      : top.node.children;
+  };
+
+  const addError = (children: SsiNode[], message: string, range: SourceRange): void => {
+    const node: SsiErrorNode = { type: 'error', message, start: range.start, end: range.end };
+    errors.push({ message, start: range.start, end: range.end });
+    children.push(node);
+  };
+
+  // Closes a frame that was never terminated
+  const closeUnterminated = (frame: OpenFrame, end: number): void => {
+    if (frame.type === 'if') {
+      frame.node.end = end;
+      addError(frame.parent, 'Missing endif', frame.node.branches[0].directive);
+      return;
+    }
+    // An unterminated block is never defined
+    const index = frame.parent.indexOf(frame.node);
+    if (index !== -1) {
+      frame.parent.splice(index, 1);
+    }
+    addError(frame.parent, 'Missing endblock', frame.node.directive);
+  };
+
+  for (const token of tokenize(source)) {
+    if (token.type === 'text') {
+      currentChildren().push(token);
+      continue;
+    }
+    if (token.type === 'error') {
+      errors.push({ message: token.message, start: token.start, end: token.end });
+      currentChildren().push(token);
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    switch (token.name) {
+      case 'if': {
+        const node: SsiConditionalNode = {
+          type: 'if',
+          branches: [{ directive: token, children: [] }],
+          start: token.start,
+          end: token.end,
+        };
+        const parent = currentChildren();
+        parent.push(node);
+        stack.push({ type: 'if', node, parent, hasElse: false });
+        break;
+      }
+      case 'elif':
+      case 'else':
+        if (top?.type !== 'if' || top.hasElse) {
+          addError(currentChildren(), `${token.name} without matching if`, token);
+          break;
+        }
+        top.node.branches.push({ directive: token, children: [] });
+        top.node.end = token.end;
+        top.hasElse = token.name === 'else';
+        break;
+      case 'endif':
+        if (top?.type !== 'if') {
+          addError(currentChildren(), 'endif without matching if', token);
+          break;
+        }
+        top.node.end = token.end;
+        stack.pop();
+        break;
+      case 'block': {
+        const name = getAttribute(token, 'name');
+        const node: SsiBlockNode = {
+          type: 'block',
+          name: name ?? '',
+          directive: token,
+          children: [],
+          start: token.start,
+          end: token.end,
+        };
+        const parent = currentChildren();
+        if (name === undefined) {
+          // The body is still consumed so its endblock is matched
+          addError(parent, 'block requires a "name" attribute', token);
+        } else {
+          parent.push(node);
+        }
+        stack.push({ type: 'block', node, parent });
+        break;
+      }
+      case 'endblock': {
+        const blockIndex = stack.map((frame) => frame.type).lastIndexOf('block');
+        if (blockIndex === -1) {
+          addError(currentChildren(), 'endblock without matching block', token);
+          break;
+        }
+        // Conditionals left open inside the block end with it
+        while (stack.length - 1 > blockIndex) {
+          closeUnterminated(stack.pop() as OpenFrame, token.start);
+        }
+        const frame = stack.pop() as OpenFrame;
+        frame.node.end = token.end;
+        break;
+      }
+      default:
+        currentChildren().push(token);
+    }
+  }
+
+  while (stack.length > 0) {
+    closeUnterminated(stack.pop() as OpenFrame, source.length);
+  }
+
+  return { nodes, errors };
+}
@@ -0,0 +1,124 @@
+/**
+ * Rebasing of relative URLs in included HTML, so references in a partial keep
+ * pointing next to the partial once it is inlined into a page in another directory
+ */
+import * as path from 'path';
+
+/**
+ * `src`, `href` and `srcset` attributes with a quoted or unquoted value
+ */
+const URL_ATTRIBUTE_PATTERN =
+  /(\s(src|href|srcset)\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/gi;
+
+/**
+ * CSS `url()` references in `<style>` elements and `style` attributes
+ */
+const CSS_URL_PATTERN = /(\burl\(\s*)(?:"([^"]*)"|'([^']*)'|([^"')\s]+))(\s*\))/gi;
+
+/**
+ * Checks if a URL is relative to the document, i.e. not absolute, root-relative,
+ * protocol-relative, a fragment or a query on the current page, or a template placeholder
+ */
+function isRelativeUrl(url: string): boolean {
+  return (
+    url !== '' &&
+    !/^[a-z][a-z\d+.-]*:/i.test(url) &&
+    !/^[/\\#?]/.test(url) &&
+    !/[{}<%$]/.test(url.charAt(0))
+  );
+}
+
+/**
+ * Rebases a single relative URL from `fromDir` to `toDir`, keeping its query and fragment
+ */
+function rebaseUrl(url: string, fromDir: string, toDir: string): string {
+  if (!isRelativeUrl(url)) {
+    return url;
+  }
+  const suffixIndex = url.search(/[?#]/);
+  const pathname = suffixIndex === -1 ? url : url.slice(0, suffixIndex);
+  const suffix = suffixIndex === -1 ? '' : url.slice(suffixIndex);
+
+  const rebased = path.relative(toDir, path.resolve(fromDir, pathname)).replace(/\\/g, '/');
+  // A trailing slash is significant for directory URLs
+  const trailingSlash = pathname.endsWith('/') && rebased !== '' ? '/' : '';
+  return `${rebased || '.'}${trailingSlash}${suffix}`;
+}
+
+/**
+ * Rebases every URL in a `srcset` value, keeping the width and density descriptors
+ */
+function rebaseSrcset(srcset: string, fromDir: string, toDir: string): string {
+  return srcset
+    .split(',')
+    .map((candidate) =>
+      candidate.replace(/^(\s*)(\S+)/, (_, space: string, url: string) => {
+        return space + rebaseUrl(url, fromDir, toDir);
+      })
+    )
+    .join(',');
+}
+
+/**
+ * Rewrites relative `src`, `href` and `srcset` attributes and CSS `url()` references
+ * in `html`, which was written for `fromFile`, so they resolve the same from `toFile`.
+ * Absolute, root-relative and protocol-relative URLs, `data:` URLs and fragments are kept.
+ *
+ * @example
+ * ```ts
+ * rebaseHtmlUrls('<img src="logo.svg">', '/site/components/header.html', '/site/docs/index.html');
+ * // '<img src="../components/logo.svg">'
+ * ```
+ */
+export function rebaseHtmlUrls(html: string, fromFile: string, toFile: string): string {
+  const fromDir = path.dirname(fromFile);
+  const toDir = path.dirname(toFile);
+  if (path.resolve(fromDir) === path.resolve(toDir)) {
+    return html;
+  }
+
+  return html
+    .replace(
+      URL_ATTRIBUTE_PATTERN,
+      (
+        match: string,
+        prefix: string,
+        name: string,
+        doubleQuoted?: string,
+        singleQuoted?: string,
+        unquoted?: string
+      ) => {
+        const value = doubleQuoted ?? singleQuoted ?? unquoted ?? '';
+        const rebased =
+          name.toLowerCase() === 'srcset'
+            ? rebaseSrcset(value, fromDir, toDir)
+            : rebaseUrl(value, fromDir, toDir);
+        if (rebased === value) {
+          return match;
+        }
+        if (doubleQuoted !== undefined) {
+          return `${prefix}"${rebased}"`;
+        }
+        return singleQuoted !== undefined ? `${prefix}'${rebased}'` : `${prefix}${rebased}`;
+      }
+    )
+    .replace(
+      CSS_URL_PATTERN,
+      (
+        match: string,
+        prefix: string,
+        doubleQuoted: string | undefined,
+        singleQuoted: string | undefined,
+        unquoted: string | undefined,
+        close: string
+      ) => {
+        const value = doubleQuoted ?? singleQuoted ?? unquoted ?? '';
+        const rebased = rebaseUrl(value, fromDir, toDir);
+        if (rebased === value) {
+          return match;
+        }
+        const quote = doubleQuoted !== undefined ? '"' : singleQuoted !== undefined ? "'" : '';
+        return `${prefix}${quote}${rebased}${quote}${close}`;
+      }
+    );
+}
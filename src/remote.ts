@@ -0,0 +1,142 @@
+/**
+ * Remote `virtual` includes fetched over HTTP, like Nginx proxying a subrequest
+ * to a backend, e.g. `/api/user-menu`
+ */
+import type { ProxyOptions } from 'vite';
+import type { SsiRequest } from './variables';
+
+/**
+ * Where includes under a prefix are fetched from; a subset of Vite's proxy options
+ */
+export interface RemoteIncludeRoute {
+  /** Origin the path is requested from, e.g. `http://localhost:8080` */
+  target: string;
+  /** Rewrites the path before it is requested, e.g. to strip the prefix */
+  rewrite?: (path: string) => string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Milliseconds before the request is aborted */
+  timeout?: number;
+}
+
+export interface RemoteIncludeOptions {
+  /**
+   * Routes by path prefix, like `server.proxy`: keys starting with `^` are regular
+   * expressions, and string values are targets
+   */
+  routes: Record<string, string | RemoteIncludeRoute>;
+  /** Milliseconds before a request is aborted, unless its route sets a timeout */
+  timeout: number;
+  /** Leave matching includes in the output for the server to resolve, e.g. in build */
+  keep?: boolean;
+}
+
+/**
+ * Default timeout of remote includes
+ */
+export const DEFAULT_REMOTE_TIMEOUT = 5000;
+
+/**
+ * Request headers that describe the page's connection or body rather than the
+ * client, and are never forwarded to the remote. `Host` is always the target's.
+ */
+const SKIPPED_HEADERS = new Set([
+  'host',
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'upgrade',
+  'content-length',
+  'content-type',
+  'accept-encoding',
+  'if-none-match',
+  'if-modified-since',
+]);
+
+/**
+ * Finds the route for a `virtual` path; the first matching key wins, as in `server.proxy`
+ */
+export function matchRemoteRoute(
+  includePath: string,
+  routes: Record<string, string | RemoteIncludeRoute>
+): RemoteIncludeRoute | undefined {
+  for (const [key, route] of Object.entries(routes)) {
+    const matches = key.startsWith('^')
+      ? new RegExp(key).test(includePath)
+      : includePath.startsWith(key);
+    if (matches) {
+      return typeof route === 'string' ? { target: route } : route;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Fetches a remote include, forwarding the headers of the page's request so
+ * cookies and authorization reach the backend
+ *
+ * @throws Error if the request fails, times out or does not respond with a 2xx status
+ */
+export async function fetchRemoteInclude(
+  includePath: string,
+  route: RemoteIncludeRoute,
+  timeout: number,
+  request?: SsiRequest
+): Promise<string> {
+  const url = new URL(route.rewrite ? route.rewrite(includePath) : includePath, route.target);
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(request?.headers ?? {})) {
+    const lowerName = name.toLowerCase();
+    if (value === undefined || SKIPPED_HEADERS.has(lowerName) || lowerName.startsWith(':')) {
+      continue;
+    }
+    headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+  for (const [name, value] of Object.entries(route.headers ?? {})) {
+    headers.set(name, value);
+  }
+
+  const limit = route.timeout ?? timeout;
+  try {
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(limit) });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`.trim());
+    }
+    return await response.text();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`timed out after ${limit}ms`);
+    }
+    // Network errors carry the reason, such as ECONNREFUSED, as their cause
+    const cause = error instanceof Error ? error.cause : undefined;
+    throw cause instanceof Error ? cause : error;
+  }
+}
+
+/**
+ * Builds remote routes from `remoteIncludes` and Vite's `server.proxy` or `preview.proxy`
+ * rules. `remoteIncludes` take precedence, and proxy rules without a URL target are skipped.
+ */
+export function createRemoteRoutes(
+  remoteIncludes: Record<string, string | RemoteIncludeRoute>,
+  proxy: Record<string, string | ProxyOptions> | undefined
+): Record<string, string | RemoteIncludeRoute> {
+  const routes: Record<string, string | RemoteIncludeRoute> = { ...remoteIncludes };
+  for (const [key, rule] of Object.entries(proxy ?? {})) {
+    if (key in routes) {
+      continue;
+    }
+    if (typeof rule === 'string') {
+      routes[key] = rule;
+    } else if (typeof rule.target === 'string') {
+      routes[key] = {
+        target: rule.target,
+        rewrite: rule.rewrite,
+        headers: rule.headers,
+        timeout: rule.proxyTimeout ?? rule.timeout,
+      };
+    }
+  }
+  return routes;
+}
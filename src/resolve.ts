@@ -0,0 +1,210 @@
+/**
+ * Resolution of `virtual` and `file` include paths to files
+ */
+import { promises as fs } from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { isPathInside } from './sandbox';
+
+/**
+ * An alias entry in the format of Vite's resolved `resolve.alias`
+ */
+export interface IncludeAlias {
+  find: string | RegExp;
+  replacement: string;
+}
+
+export interface IncludeResolveOptions {
+  /** Aliases applied to `virtual` paths, e.g. Vite's `resolve.alias` */
+  alias?: IncludeAlias[];
+  /**
+   * Directories searched for bare `virtual` names (e.g. `header.html`) that do not
+   * exist next to the including file, relative to the root
+   */
+  includePaths?: string[];
+  /** Directory searched for root-relative `virtual` paths that do not exist in the root */
+  publicDir?: string;
+}
+
+/**
+ * A resolved `virtual` path
+ */
+export interface ResolvedVirtualPath {
+  path: string;
+  /** Whether the path was resolved from an npm package, which may live outside the root */
+  fromPackage: boolean;
+}
+
+/**
+ * Prefix that forces a `virtual` path to be resolved as an npm package specifier
+ */
+const PACKAGE_PREFIX = 'pkg:';
+
+/**
+ * Applies the first matching alias, like `@rollup/plugin-alias`.
+ * Returns undefined when no alias matches.
+ */
+function applyAlias(includePath: string, alias: IncludeAlias[]): string | undefined {
+  for (const { find, replacement } of alias) {
+    const matches =
+      find instanceof RegExp
+        ? find.test(includePath)
+        : includePath === find || includePath.startsWith(`${find}/`);
+    if (matches) {
+      return includePath.replace(find, replacement);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks if a path is a bare name rather than explicitly relative or absolute
+ */
+function isBareName(includePath: string): boolean {
+  return !/^(\.{1,2}[\\/]|[\\/])/.test(includePath) && !path.isAbsolute(includePath);
+}
+
+/**
+ * Checks if a specifier names a package, rather than a path that Node would resolve
+ * as written, such as `/etc/hostname`, `../secret` or `C:\secret`
+ */
+function isPackageSpecifier(specifier: string): boolean {
+  return specifier !== '' && !/^([./\\]|[a-zA-Z]:)/.test(specifier);
+}
+
+/**
+ * Gets the package name of a bare specifier, e.g. `@acme/ui` for `@acme/ui/partials/header.html`
+ */
+function getPackageName(specifier: string): string {
+  const segments = specifier.split('/');
+  return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+}
+
+/**
+ * Finds the real directory of the package Node resolves a specifier from: the nearest
+ * `node_modules/<name>` above the including directory. Workspace packages are linked
+ * there, so their real directory may be outside any `node_modules`.
+ */
+async function findPackageDir(name: string, fromDir: string): Promise<string | undefined> {
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    try {
+      return await fs.realpath(path.join(dir, 'node_modules', name));
+    } catch {
+      // Not installed at this level
+    }
+    if (path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Resolves a package specifier such as `@acme/ui/partials/header.html` with Node
+ * resolution from the including file, respecting the package's `exports`.
+ * Returns the real path, so files in linked workspace packages are tracked where they
+ * are edited, or undefined when the specifier is not a bare package specifier or cannot
+ * be resolved. Only files inside the installed package are marked as coming from a
+ * package; anything else, such as a self-reference to the project, stays sandboxed.
+ */
+async function resolvePackagePath(
+  specifier: string,
+  includingFile: string,
+  root: string
+): Promise<ResolvedVirtualPath | undefined> {
+  if (!isPackageSpecifier(specifier)) {
+    return undefined;
+  }
+  // Includes from virtual modules are resolved from the root
+  const from = path.isAbsolute(includingFile) ? includingFile : path.join(root, 'index.html');
+  let resolved: string;
+  try {
+    resolved = createRequire(from).resolve(specifier);
+  } catch {
+    return undefined;
+  }
+  // Built-in modules resolve to their bare names
+  if (!path.isAbsolute(resolved)) {
+    return undefined;
+  }
+  const realPath = await fs.realpath(resolved);
+  const packageDir = await findPackageDir(getPackageName(specifier), path.dirname(from));
+  return {
+    path: realPath,
+    fromPackage: packageDir !== undefined && isPathInside(realPath, packageDir),
+  };
+}
+
+/**
+ * Resolves a `virtual` path. Aliases are applied first, and `pkg:` paths are resolved
+ * as npm package specifiers. Root-relative paths fall back to `publicDir`, and bare names
+ * fall back to `includePaths` and then to npm packages, when they do not exist.
+ * Returns undefined when a `pkg:` specifier cannot be resolved.
+ *
+ * @param exists - Checks if a resolved path can be loaded
+ */
+export async function resolveVirtualPath(
+  virtualPath: string,
+  includingFile: string,
+  root: string,
+  options: IncludeResolveOptions,
+  exists: (filePath: string) => Promise<boolean>
+): Promise<ResolvedVirtualPath | undefined> {
+  const { alias = [], includePaths = [], publicDir } = options;
+
+  if (virtualPath.startsWith(PACKAGE_PREFIX)) {
+    const specifier = virtualPath.slice(PACKAGE_PREFIX.length);
+    return resolvePackagePath(specifier, includingFile, root);
+  }
+
+  const aliased = applyAlias(virtualPath, alias);
+  if (aliased !== undefined) {
+    // Aliases usually point at absolute paths on disk; anything else is resolved as written
+    if (path.isAbsolute(aliased) && (isPathInside(aliased, root) || (await exists(aliased)))) {
+      return { path: aliased, fromPackage: false };
+    }
+    virtualPath = aliased;
+  }
+
+  if (virtualPath.startsWith('/')) {
+    // From project root - remove leading slash to avoid discarding root
+    const fromRoot = path.join(root, virtualPath.slice(1));
+    if (publicDir && !(await exists(fromRoot))) {
+      const fromPublic = path.join(publicDir, virtualPath.slice(1));
+      if (await exists(fromPublic)) {
+        return { path: fromPublic, fromPackage: false };
+      }
+    }
+    return { path: fromRoot, fromPackage: false };
+  }
+
+  // Relative to including file
+  const fromIncludingFile = path.resolve(path.dirname(includingFile), virtualPath);
+  if (isBareName(virtualPath) && !(await exists(fromIncludingFile))) {
+    for (const dir of includePaths) {
+      const candidate = path.resolve(root, dir, virtualPath);
+      if (await exists(candidate)) {
+        return { path: candidate, fromPackage: false };
+      }
+    }
+    const packagePath = await resolvePackagePath(virtualPath, includingFile, root);
+    if (packagePath) {
+      return packagePath;
+    }
+  }
+  return { path: fromIncludingFile, fromPackage: false };
+}
+
+/**
+ * Resolves an `include file` path. Like Apache's mod_include, only paths relative to the
+ * including file's directory are allowed; returns null for absolute paths and `..` segments.
+ */
+export function resolveFilePath(relativePath: string, includingFile: string): string | null {
+  if (
+    path.isAbsolute(relativePath) ||
+    relativePath.startsWith('/') ||
+    relativePath.split(/[\\/]/).includes('..')
+  ) {
+    return null;
+  }
+  return path.resolve(path.dirname(includingFile), relativePath);
+}
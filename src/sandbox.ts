@@ -0,0 +1,77 @@
+/**
+ * Confinement of include targets to the project root and explicitly allowed directories
+ */
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface IncludeSandbox {
+  /** Absolute directories that includes may be read from */
+  allow: string[];
+  /** Matches files that may never be included, such as Vite's `server.fs.deny` */
+  deny?: (filePath: string) => boolean;
+}
+
+/**
+ * Why an include target was rejected
+ */
+export type SandboxViolation = 'outside' | 'denied';
+
+/**
+ * Checks if `filePath` is `dir` or inside it
+ */
+export function isPathInside(filePath: string, dir: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return relative === '' || (relative.split(/[\\/]/)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+/**
+ * Creates a sandbox for the given directories. Their real paths are allowed too,
+ * so a root reached through a symlink still contains its own files.
+ */
+export async function createSandbox(
+  dirs: string[],
+  deny?: (filePath: string) => boolean
+): Promise<IncludeSandbox> {
+  const allow = new Set(dirs.map((dir) => path.resolve(dir)));
+  for (const dir of Array.from(allow)) {
+    try {
+      allow.add(await fs.realpath(dir));
+    } catch {
+      // Directories that do not exist only contain in-memory files
+    }
+  }
+  return { allow: Array.from(allow), deny };
+}
+
+/**
+ * Checks an absolute include path against the sandbox. Files that exist are also
+ * checked by their real path, so symlinks cannot point out of the allowed directories.
+ *
+ * @param allowOutside - Only apply `deny`, e.g. for files resolved from npm packages
+ */
+export async function checkSandbox(
+  sandbox: IncludeSandbox,
+  filePath: string,
+  allowOutside = false
+): Promise<SandboxViolation | undefined> {
+  const paths = [filePath];
+  try {
+    const realPath = await fs.realpath(filePath);
+    if (realPath !== filePath) {
+      paths.push(realPath);
+    }
+  } catch {
+    // Missing files and in-memory files are checked by their path alone
+  }
+
+  for (const candidate of paths) {
+    const normalized = candidate.replace(/\\/g, '/');
+    if (sandbox.deny?.(normalized)) {
+      return 'denied';
+    }
+    if (!allowOutside && !sandbox.allow.some((dir) => isPathInside(candidate, dir))) {
+      return 'outside';
+    }
+  }
+  return undefined;
+}
@@ -1,30 +1,190 @@
-import { promises as fs } from 'fs';
 import * as path from 'path';
+import {
+  createIncludeLoader,
+  normalizeId,
+  type IncludeLoader,
+  type IncludeLoaderOptions,
+  type IncludeStats,
+} from './loader';
+import type { SsiCache } from './cache';
 import { matchesFileType, DEFAULT_FILE_TYPE_MAP, type FileTypeMap } from './file-types';
+import { evaluateExpression } from './expressions';
+import {
+  getAttribute,
+  parseSsi,
+  type SsiConditionalNode,
+  type SsiDirectiveNode,
+  type SsiNode,
+  type SourceRange,
+} from './parser';
+import { checkSandbox, createSandbox, type IncludeSandbox, type SandboxViolation } from './sandbox';
+import { rebaseHtmlUrls } from './rebase';
+import type { IncludeTransforms } from './transforms';
+import {
+  DIRECTIVE_COMMANDS,
+  validateDirectives,
+  type SsiDirectiveContext,
+  type SsiDirectiveHandler,
+  type SsiDirectives,
+} from './directives';
+import {
+  matchFragmentRoute,
+  renderFragment,
+  resolveFragment,
+  type FragmentOptions,
+} from './fragments';
+import { fetchRemoteInclude, matchRemoteRoute, type RemoteIncludeOptions } from './remote';
+import { createLimit, type Limit } from './limit';
+import { resolveFilePath, resolveVirtualPath, type IncludeResolveOptions } from './resolve';
+import {
+  getErrorMode,
+  getLineColumn,
+  relativeToRoot,
+  summarizeDiagnostics,
+  type SsiDiagnostic,
+  type SsiDiagnosticCategory,
+  type SsiErrorHandling,
+} from './diagnostics';
+import { DEFAULT_TIME_FORMAT, formatSize, isSizeFormat, strftime, type SizeFormat } from './format';
+import {
+  encodeValue,
+  getRequestVariables,
+  isEchoEncoding,
+  substituteVariables,
+  UNDEFINED_ECHO,
+  type SsiRequest,
+  type SsiVariables,
+} from './variables';
 
 export interface ProcessResult {
+  /** Rendered output */
   code: string;
+  /** Normalized absolute paths of every file the output depends on */
   deps: Set<string>;
+  /** Errors reported while rendering, in document order */
+  diagnostics: SsiDiagnostic[];
 }
 
-export interface ProcessSsiOptions {
+export interface ProcessSsiOptions extends IncludeLoaderOptions, IncludeResolveOptions {
   root: string;
   maxDepth: number;
   includeFileTypes?: string[];
   fileTypeMap?: FileTypeMap;
+  /** Live request in dev and preview, used for `QUERY_STRING_UNESCAPED` and `HTTP_*` */
+  request?: SsiRequest;
+  /** Maximum length of parameter values in SSI commands (Nginx's `ssi_value_length`) */
+  valueLength?: number;
+  /** Initial variables, which take precedence over the built-in ones */
+  variables?: Record<string, string>;
+  /** Whether errors are output as comments or suppressed, per category */
+  onError?: SsiErrorHandling;
+  /** Directories outside `root` that includes may be read from, relative to `root` */
+  allowedDirs?: string[];
+  /** Matches normalized paths that may never be included, e.g. Vite's `server.fs.deny` */
+  deny?: (filePath: string) => boolean;
+  /** Rewrite relative URLs in included HTML to point next to the included file */
+  rebaseUrls?: boolean;
+  /** Transforms applied to included files by file type, after SSI processing */
+  includeTransforms?: IncludeTransforms;
+  /** Handlers for project-specific commands; built-in commands cannot be overridden */
+  directives?: SsiDirectives;
+  /** Modules that render `virtual` paths under configured prefixes */
+  fragments?: FragmentOptions;
+  /** Backends that `virtual` paths under configured prefixes are fetched from */
+  remote?: RemoteIncludeOptions;
+  /** Content cache shared across documents, e.g. every page of a build */
+  cache?: SsiCache;
+  /** Maximum number of include targets read at once; `1` reads them one by one */
+  concurrency?: number;
 }
 
 /**
- * Resolves an include path based on the virtual path and including file location
+ * Default maximum length of parameter values, as in Nginx
  */
-function resolveIncludePath(virtualPath: string, includingFile: string, root: string): string {
-  if (virtualPath.startsWith('/')) {
-    // From project root - remove leading slash to avoid discarding root
-    return path.join(root, virtualPath.slice(1));
-  }
-  // Relative to including file
-  const includingDir = path.dirname(includingFile);
-  return path.resolve(includingDir, virtualPath);
+export const DEFAULT_VALUE_LENGTH = 256;
+
+/**
+ * Default maximum number of include targets read at once
+ */
+export const DEFAULT_CONCURRENCY = 8;
+
+/**
+ * State shared by a document and every file it includes. Each file is rendered
+ * with a shallow copy that only replaces `file`, so everything else must be
+ * mutated in place rather than reassigned.
+ */
+interface SsiContext {
+  root: string;
+  maxDepth: number;
+  includeFileTypes: string[];
+  fileTypeMap: FileTypeMap;
+  valueLength: number;
+  rebaseUrls: boolean;
+  includeTransforms: IncludeTransforms;
+  /** Custom directive handlers, by lowercased command name */
+  directives: Map<string, SsiDirectiveHandler>;
+  fragments: FragmentOptions | undefined;
+  remote: RemoteIncludeOptions | undefined;
+  /** Live request, whose headers are forwarded to remote includes */
+  request: SsiRequest | undefined;
+  onError: SsiErrorHandling | undefined;
+  cache: SsiCache | undefined;
+  /** Whether sibling include targets are read ahead of their turn */
+  readAhead: boolean;
+  /** Bounds the reads running ahead for the whole document */
+  limit: Limit;
+  /** Include targets read ahead, by directive; each is consumed by the include's turn */
+  prefetches: Map<SsiDirectiveNode, IncludePrefetch>;
+  variables: SsiVariables;
+  loader: IncludeLoader;
+  resolveOptions: IncludeResolveOptions;
+  /** Directories includes are confined to */
+  sandbox: IncludeSandbox;
+  /** Unrendered content of `block` definitions, by name */
+  blocks: Map<string, { nodes: SsiNode[]; file: SsiFile }>;
+  /** Settings changed by `config` directives */
+  config: SsiConfig;
+  /** Variables holding dates, re-rendered when `config timefmt` changes */
+  timeVariables: Map<string, { date: Date; gmt: boolean }>;
+  /** File whose directives are being rendered */
+  file: SsiFile;
+  diagnostics: SsiDiagnostic[];
+}
+
+/**
+ * The target of an include being read while earlier siblings render. Rejections are
+ * only observed when the include takes its turn, where they are reported.
+ */
+interface IncludePrefetch {
+  /** Path after variable substitution; the read is discarded if it differs in the include's turn */
+  includePath: string;
+  /** Body of a remote include */
+  remote?: Promise<string>;
+  /** Resolved target of a local include */
+  target?: Promise<ResolvedTarget>;
+  /** Content of the resolved target, undefined when it did not resolve */
+  content?: Promise<string | undefined>;
+}
+
+/**
+ * A file being rendered, used to locate errors
+ */
+interface SsiFile {
+  /** Normalized path or include id */
+  path: string;
+  source: string;
+  /** Files being rendered, from the page down to this one */
+  chain: string[];
+}
+
+/**
+ * Output settings controlled by `<!--#config -->`
+ */
+interface SsiConfig {
+  /** Replaces the default error comment when set */
+  errmsg?: string;
+  timefmt: string;
+  sizefmt: SizeFormat;
 }
 
 /**
@@ -42,50 +202,216 @@ export async function processSsi(
   content: string,
   options: ProcessSsiOptions
 ): Promise<ProcessResult> {
-  const { root, maxDepth, includeFileTypes = [], fileTypeMap = DEFAULT_FILE_TYPE_MAP } = options;
-  return processSsiRecursive(
-    filePath,
-    content,
+  const {
+    root,
+    maxDepth,
+    includeFileTypes = [],
+    fileTypeMap = DEFAULT_FILE_TYPE_MAP,
+    valueLength = DEFAULT_VALUE_LENGTH,
+    concurrency = DEFAULT_CONCURRENCY,
+    allowedDirs = [],
+    includePaths = [],
+  } = options;
+  validateDirectives(options.directives ?? {});
+  const publicDir = options.publicDir ? path.resolve(root, options.publicDir) : undefined;
+  // Search paths are always readable
+  const sandboxDirs = [root, ...allowedDirs, ...includePaths, ...(publicDir ? [publicDir] : [])];
+
+  const ctx: SsiContext = {
     root,
-    new Set(),
-    0,
     maxDepth,
     includeFileTypes,
-    fileTypeMap
+    fileTypeMap,
+    valueLength,
+    rebaseUrls: options.rebaseUrls ?? false,
+    includeTransforms: options.includeTransforms ?? {},
+    directives: new Map(
+      Object.entries(options.directives ?? {}).map(([name, handler]) => [
+        name.toLowerCase(),
+        handler,
+      ])
+    ),
+    fragments: options.fragments,
+    remote: options.remote,
+    request: options.request,
+    onError: options.onError,
+    cache: options.cache,
+    readAhead: concurrency > 1,
+    limit: createLimit(concurrency),
+    prefetches: new Map(),
+    variables: new Map(),
+    loader: createIncludeLoader(root, options, options.cache),
+    resolveOptions: { alias: options.alias, includePaths, publicDir },
+    sandbox: await createSandbox(
+      sandboxDirs.map((dir) => path.resolve(root, dir)),
+      options.deny
+    ),
+    blocks: new Map(),
+    config: { timefmt: DEFAULT_TIME_FORMAT, sizefmt: 'abbrev' },
+    timeVariables: new Map(),
+    file: { path: normalizeId(filePath), source: content, chain: [normalizeId(filePath)] },
+    diagnostics: [],
+  };
+  await setBuiltinVariables(ctx, filePath, options.request);
+  for (const [name, value] of Object.entries(options.variables ?? {})) {
+    ctx.variables.set(name, value);
+    ctx.timeVariables.delete(name);
+  }
+  const result = await processSsiRecursive(filePath, content, ctx, new Set(), 0);
+  return { ...result, diagnostics: ctx.diagnostics };
+}
+
+/**
+ * Options for rendering a template with `renderSsi`
+ */
+export interface RenderSsiOptions extends Partial<Omit<ProcessSsiOptions, 'root'>> {
+  /** Directory that root-relative `virtual` paths resolve against */
+  root: string;
+  /**
+   * Path of the template, used to resolve relative includes and `DOCUMENT_*` variables
+   * @default `index.html` in `root`
+   */
+  filePath?: string;
+}
+
+/**
+ * Renders an SSI template string, reading included files from disk unless
+ * the `files`, `resolveInclude` or `loadInclude` options provide them.
+ * Errors whose `onError` mode is `throw` reject with a summary of all of them.
+ * Uses the same engine and defaults as the Vite plugin, so it can be used
+ * from scripts and tools outside of Vite.
+ *
+ * @example
+ * ```ts
+ * const { code, deps } = await renderSsi('<!--#include virtual="/header.html" -->', {
+ *   root: process.cwd(),
+ *   variables: { title: 'Home' },
+ * });
+ * ```
+ */
+export async function renderSsi(
+  template: string,
+  options: RenderSsiOptions
+): Promise<ProcessResult> {
+  const { filePath = path.join(options.root, 'index.html'), maxDepth = 10, ...rest } = options;
+  const result = await processSsi(path.resolve(options.root, filePath), template, {
+    ...rest,
+    maxDepth,
+  });
+
+  const failures = result.diagnostics.filter(
+    (diagnostic) => getErrorMode(options.onError, diagnostic.category) === 'throw'
   );
+  if (failures.length > 0) {
+    throw new Error(summarizeDiagnostics(failures, options.root));
+  }
+  return result;
 }
 
 /**
- * Internal recursive SSI processing function
+ * Populates the Apache/Nginx built-in variables for the top-level document
+ */
+async function setBuiltinVariables(
+  ctx: SsiContext,
+  filePath: string,
+  request: SsiRequest | undefined
+): Promise<void> {
+  const now = new Date();
+  setTimeVariable(ctx, 'DATE_LOCAL', now, false);
+  setTimeVariable(ctx, 'DATE_GMT', now, true);
+  setTimeVariable(ctx, 'date_local', now, false);
+  setTimeVariable(ctx, 'date_gmt', now, true);
+
+  // The document URI always describes the page, never the partial being included
+  const relativePath = path.relative(ctx.root, filePath).replace(/\\/g, '/');
+  ctx.variables.set('DOCUMENT_NAME', path.basename(filePath));
+  ctx.variables.set('DOCUMENT_URI', `/${relativePath}`);
+
+  try {
+    const { mtime } = await ctx.loader.stat(filePath);
+    if (mtime) {
+      setTimeVariable(ctx, 'LAST_MODIFIED', mtime, false);
+    }
+  } catch {
+    // The document may not exist on disk (e.g. virtual HTML from another plugin)
+  }
+
+  if (request) {
+    for (const [name, value] of getRequestVariables(request)) {
+      ctx.variables.set(name, value);
+    }
+  }
+}
+
+/**
+ * Sets a variable holding a date, formatted with the current `timefmt`
+ */
+function setTimeVariable(ctx: SsiContext, name: string, date: Date, gmt: boolean): void {
+  ctx.timeVariables.set(name, { date, gmt });
+  ctx.variables.set(name, strftime(ctx.config.timefmt, date, gmt));
+}
+
+/**
+ * Records a diagnostic for the directive at `range` in the current file and
+ * renders the error for output, honouring `onError` and `config errmsg`
+ */
+function reportError(
+  ctx: SsiContext,
+  category: SsiDiagnosticCategory,
+  range: SourceRange,
+  message: string
+): string {
+  const { line, column } = getLineColumn(ctx.file.source, range.start);
+  ctx.diagnostics.push({
+    category,
+    message,
+    file: ctx.file.path,
+    line,
+    column,
+    chain: ctx.file.chain,
+  });
+
+  const mode = getErrorMode(ctx.onError, category);
+  if (mode === 'silent' || mode === 'warn') {
+    return '';
+  }
+  return ctx.config.errmsg ?? `<!-- SSI Error: ${message} -->`;
+}
+
+/**
+ * Internal recursive SSI processing function. Cycle and depth errors are
+ * reported at `origin`, the include directive in the including file.
  */
 async function processSsiRecursive(
   filePath: string,
   content: string,
-  root: string,
+  ctx: SsiContext,
   seen: Set<string>,
   depth: number,
-  maxDepth: number,
-  includeFileTypes: string[],
-  fileTypeMap: FileTypeMap
-): Promise<ProcessResult> {
-  const normalizedPath = normalizePath(filePath);
+  origin: SourceRange = { start: 0, end: 0 }
+): Promise<Omit<ProcessResult, 'diagnostics'>> {
+  const normalizedPath = normalizeId(filePath);
   const deps = new Set<string>();
 
   // Check for circular includes
   if (seen.has(normalizedPath)) {
     const seenArray = Array.from(seen);
     const cycleStart = seenArray.indexOf(normalizedPath);
-    const cycle = seenArray.slice(cycleStart).concat(normalizedPath).join(' -> ');
+    const cycle = seenArray
+      .slice(cycleStart)
+      .concat(normalizedPath)
+      .map((file) => relativeToRoot(file, ctx.root))
+      .join(' -> ');
     return {
-      code: `<!-- SSI Error: Circular include detected: ${cycle} -->`,
+      code: reportError(ctx, 'cycle', origin, `Circular include detected: ${cycle}`),
       deps,
     };
   }
 
   // Check max depth
-  if (depth >= maxDepth) {
+  if (depth >= ctx.maxDepth) {
     return {
-      code: `<!-- SSI Error: Maximum include depth (${maxDepth}) exceeded -->`,
+      code: reportError(ctx, 'depth', origin, `Maximum include depth (${ctx.maxDepth}) exceeded`),
       deps,
     };
   }
@@ -93,93 +419,842 @@ async function processSsiRecursive(
   // Add current file to seen set for circular detection
   seen.add(normalizedPath);
 
-  // Find all include directives
-  const includeRegex = /<!--#include\s+virtual\s*=\s*"([^"]+)"\s*-->/g;
-  let match: RegExpExecArray | null;
-  let result = content;
-  const replacements: Array<{ start: number; end: number; replacement: string }> = [];
-
-  // Collect all matches first
-  const matches: Array<{ index: number; length: number; virtualPath: string }> = [];
-  while ((match = includeRegex.exec(content)) !== null) {
-    matches.push({
-      index: match.index,
-      length: match[0].length,
-      virtualPath: match[1],
-    });
+  const fileCtx: SsiContext = {
+    ...ctx,
+    file: { path: normalizedPath, source: content, chain: Array.from(seen) },
+  };
+  const code = await processContent(filePath, content, fileCtx, seen, depth, deps);
+  return { code, deps };
+}
+
+/**
+ * Parses and renders a piece of content belonging to `filePath`
+ */
+async function processContent(
+  filePath: string,
+  content: string,
+  ctx: SsiContext,
+  seen: Set<string>,
+  depth: number,
+  deps: Set<string>
+): Promise<string> {
+  const document = ctx.cache ? ctx.cache.parse(filePath, content) : parseSsi(content);
+  return renderNodes(document.nodes, filePath, ctx, seen, depth, deps);
+}
+
+/**
+ * Renders nodes in document order, so that variables set earlier in the page
+ * are visible to later directives and to included files. The targets of sibling
+ * includes are read concurrently ahead of their turn.
+ */
+async function renderNodes(
+  nodes: SsiNode[],
+  filePath: string,
+  ctx: SsiContext,
+  seen: Set<string>,
+  depth: number,
+  deps: Set<string>
+): Promise<string> {
+  let result = '';
+  prefetchIncludes(nodes, 0, filePath, ctx);
+  for (const [index, node] of nodes.entries()) {
+    switch (node.type) {
+      case 'text':
+        result += node.value;
+        break;
+      case 'error':
+        result += reportError(ctx, 'parse', node, node.message);
+        break;
+      case 'block':
+        // Block bodies are stored unrendered and evaluated each time they are used
+        ctx.blocks.set(node.name, { nodes: node.children, file: ctx.file });
+        break;
+      case 'if':
+        result += await renderConditional(node, filePath, ctx, seen, depth, deps);
+        break;
+      case 'directive':
+        result += await executeDirective(node, filePath, ctx, seen, depth, deps);
+        if (isWaitingInclude(node)) {
+          prefetchIncludes(nodes, index + 1, filePath, ctx);
+        }
+        break;
+    }
   }
+  return result;
+}
+
+/**
+ * Checks if a directive is an include with `wait="yes"`
+ */
+function isWaitingInclude(directive: SsiDirectiveNode): boolean {
+  return directive.name === 'include' && getAttribute(directive, 'wait') === 'yes';
+}
+
+/**
+ * Starts reading the targets of the includes among `nodes` from `start`, up to the
+ * next include with `wait="yes"`, which is read in its turn and holds back the
+ * includes after it until it has rendered. Includes in `if` branches are read once
+ * their branch is taken. Paths are substituted with the variables as they are now,
+ * so an include whose path is changed by an earlier sibling is read again in its turn.
+ */
+function prefetchIncludes(
+  nodes: SsiNode[],
+  start: number,
+  filePath: string,
+  ctx: SsiContext
+): void {
+  if (!ctx.readAhead) {
+    return;
+  }
+  for (const node of nodes.slice(start)) {
+    if (node.type !== 'directive' || node.name !== 'include') {
+      continue;
+    }
+    if (isWaitingInclude(node)) {
+      return;
+    }
+    const prefetch = createPrefetch(node, filePath, ctx);
+    if (prefetch) {
+      ctx.prefetches.set(node, prefetch);
+    }
+  }
+}
 
-  // Process matches in reverse order to maintain correct indices
-  for (let i = matches.length - 1; i >= 0; i--) {
-    const { index, length, virtualPath } = matches[i];
-    const matchEnd = index + length;
-
-    // Resolve include path
-    const resolvedPath = resolveIncludePath(virtualPath, filePath, root);
-    const normalizedResolvedPath = normalizePath(resolvedPath);
-
-    // Track dependency
-    deps.add(normalizedResolvedPath);
-
-    try {
-      // Check if file exists
-      await fs.access(resolvedPath);
-
-      // Read included file
-      const includedContent = await fs.readFile(resolvedPath, 'utf-8');
-
-      // Check if this included file should have SSI processing applied
-      // If includeFileTypes is specified and the file matches those types, process it
-      // Otherwise, don't process included files (default: only top-level HTML files are processed)
-      const shouldProcessSsi =
-        includeFileTypes.length === 0
-          ? false // Default: don't process included files
-          : matchesFileType(resolvedPath, includeFileTypes, fileTypeMap);
-
-      let processed: ProcessResult;
-      if (shouldProcessSsi) {
-        // Recursively process included content with SSI
-        processed = await processSsiRecursive(
-          resolvedPath,
-          includedContent,
-          root,
-          new Set(seen),
-          depth + 1,
-          maxDepth,
-          includeFileTypes,
-          fileTypeMap
-        );
-      } else {
-        // Just use the content as-is, but still track it as a dependency
-        processed = {
-          code: includedContent,
-          deps: new Set(),
-        };
+/**
+ * Starts reading the target of an include. Returns undefined for includes that are
+ * only evaluated in their turn: invalid ones, fragments and remote includes left
+ * for the server.
+ */
+function createPrefetch(
+  directive: SsiDirectiveNode,
+  filePath: string,
+  ctx: SsiContext
+): IncludePrefetch | undefined {
+  const wait = getAttribute(directive, 'wait');
+  if (
+    (wait !== undefined && wait !== 'no') ||
+    directive.attributes.some(({ value }) => value.length > ctx.valueLength)
+  ) {
+    return undefined;
+  }
+  const virtualPath = getAttribute(directive, 'virtual');
+  const value = virtualPath ?? getAttribute(directive, 'file');
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const includePath = substituteVariables(value, ctx.variables);
+  if (virtualPath !== undefined && ctx.remote) {
+    const route = matchRemoteRoute(includePath, ctx.remote.routes);
+    if (route) {
+      if (ctx.remote.keep) {
+        return undefined;
       }
+      const { timeout } = ctx.remote;
+      const remote = ctx.limit(() => fetchRemoteInclude(includePath, route, timeout, ctx.request));
+      remote.catch(() => {});
+      return { includePath, remote };
+    }
+  }
+  if (virtualPath !== undefined && ctx.fragments) {
+    if (matchFragmentRoute(includePath, ctx.fragments.routes) !== undefined) {
+      return undefined;
+    }
+  }
+
+  const kind = virtualPath !== undefined ? 'virtual' : 'file';
+  const target = ctx.limit(() => resolveTargetPath(kind, includePath, filePath, ctx));
+  const content = target.then((resolved) =>
+    typeof resolved === 'object'
+      ? ctx.limit(() => ctx.loader.load(resolved.resolvedPath))
+      : undefined
+  );
+  target.catch(() => {});
+  content.catch(() => {});
+  return { includePath, target, content };
+}
+
+/**
+ * Executes a single directive and returns its output
+ */
+async function executeDirective(
+  directive: SsiDirectiveNode,
+  filePath: string,
+  ctx: SsiContext,
+  seen: Set<string>,
+  depth: number,
+  deps: Set<string>
+): Promise<string> {
+  const handler = DIRECTIVE_COMMANDS.has(directive.name)
+    ? undefined
+    : ctx.directives.get(directive.name);
+  if (!DIRECTIVE_COMMANDS.has(directive.name) && !handler) {
+    // Unknown directives are left untouched
+    return directive.raw;
+  }
+
+  const lengthError = checkValueLength(directive, ctx);
+  if (lengthError) {
+    return lengthError;
+  }
+
+  if (handler) {
+    return executeCustomDirective(handler, directive, filePath, ctx, deps);
+  }
+
+  switch (directive.name) {
+    case 'include':
+      return executeInclude(directive, filePath, ctx, seen, depth, deps);
+    case 'set':
+      return executeSet(directive, ctx);
+    case 'echo':
+      return executeEcho(directive, ctx);
+    case 'config':
+      return executeConfig(directive, ctx);
+    case 'flastmod':
+    case 'fsize':
+      return executeFileInfo(directive, filePath, ctx, deps);
+    default:
+      return directive.raw;
+  }
+}
+
+/**
+ * Reports parameter values longer than `valueLength`, as Nginx does
+ */
+function checkValueLength(directive: SsiDirectiveNode, ctx: SsiContext): string | undefined {
+  for (const { name, value } of directive.attributes) {
+    if (value.length > ctx.valueLength) {
+      return reportError(
+        ctx,
+        'directive',
+        directive,
+        `Value of "${name}" exceeds the maximum length (${ctx.valueLength})`
+      );
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Renders the first branch of an `if` block whose condition holds. Directives in
+ * branches that are not taken are never executed, so their includes are neither
+ * read nor tracked as dependencies.
+ */
+async function renderConditional(
+  node: SsiConditionalNode,
+  filePath: string,
+  ctx: SsiContext,
+  seen: Set<string>,
+  depth: number,
+  deps: Set<string>
+): Promise<string> {
+  let result = '';
+  for (const branch of node.branches) {
+    const condition = branch.directive.name === 'else' || evaluateCondition(branch.directive, ctx);
+    if (typeof condition === 'string') {
+      // Invalid conditions are reported and treated as false
+      result += condition;
+    } else if (condition) {
+      return result + (await renderNodes(branch.children, filePath, ctx, seen, depth, deps));
+    }
+  }
+  return result;
+}
+
+/**
+ * Evaluates the `expr` of an `if` / `elif`, returning an error message if it is invalid
+ */
+function evaluateCondition(directive: SsiDirectiveNode, ctx: SsiContext): boolean | string {
+  const lengthError = checkValueLength(directive, ctx);
+  if (lengthError) {
+    return lengthError;
+  }
+  const expr = getAttribute(directive, 'expr');
+  if (expr === undefined) {
+    return reportError(
+      ctx,
+      'directive',
+      directive,
+      `${directive.name} requires an "expr" attribute`
+    );
+  }
+  try {
+    return evaluateExpression(expr, ctx.variables);
+  } catch (error) {
+    return reportError(
+      ctx,
+      'directive',
+      directive,
+      `Invalid expression: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * A `virtual` or `file` attribute resolved to an include id, usually a path on disk
+ */
+type DirectiveTarget =
+  | {
+      includePath: string;
+      resolvedPath: string;
+      /** Files from npm packages may be read from outside the sandbox */
+      fromPackage?: boolean;
+      /** Paths tried before `resolvedPath` that did not exist */
+      lookups?: string[];
+    }
+  | { error: string };
+
+/**
+ * A resolved include path, or why it cannot be used
+ */
+type ResolvedTarget =
+  | { resolvedPath: string; fromPackage?: boolean; lookups?: string[] }
+  | 'missing'
+  | 'invalid'
+  | SandboxViolation;
+
+/**
+ * Resolves the `virtual` or `file` attribute shared by `include`, `flastmod` and `fsize`.
+ * Returns undefined when the directive has neither attribute.
+ */
+async function resolveDirectiveTarget(
+  directive: SsiDirectiveNode,
+  filePath: string,
+  ctx: SsiContext,
+  prefetch?: IncludePrefetch
+): Promise<DirectiveTarget | undefined> {
+  const virtualPath = getAttribute(directive, 'virtual');
+  const relativePath = getAttribute(directive, 'file');
+  const value = virtualPath ?? relativePath;
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const includePath = substituteVariables(value, ctx.variables);
+  const kind = virtualPath !== undefined ? 'virtual' : 'file';
+  const target = await (prefetch?.includePath === includePath && prefetch.target
+    ? prefetch.target
+    : resolveTargetPath(kind, includePath, filePath, ctx));
+  switch (target) {
+    case 'missing':
+      return { error: reportError(ctx, 'missing', directive, `File not found: ${includePath}`) };
+    case 'invalid':
+      return {
+        error: reportError(
+          ctx,
+          'directive',
+          directive,
+          `File path must be relative and may not contain "..": ${includePath}`
+        ),
+      };
+    case 'outside':
+      return {
+        error: reportError(
+          ctx,
+          'forbidden',
+          directive,
+          `Include is outside the allowed directories: ${includePath}`
+        ),
+      };
+    case 'denied':
+      return {
+        error: reportError(ctx, 'forbidden', directive, `Include is denied: ${includePath}`),
+      };
+    default:
+      return { includePath, ...target };
+  }
+}
+
+/**
+ * Resolves a `virtual` or `file` path. The `resolveInclude` hook is consulted first,
+ * and paths outside the sandbox are rejected.
+ */
+async function resolveTargetPath(
+  kind: 'virtual' | 'file',
+  includePath: string,
+  filePath: string,
+  ctx: SsiContext
+): Promise<ResolvedTarget> {
+  let target: ResolvedTarget;
+  if (kind === 'virtual') {
+    const hookPath = await ctx.loader.resolve(includePath, filePath);
+    // Creating a path that was tried first would change what the include resolves to
+    const lookups: string[] = [];
+    const exists = async (id: string) => {
+      const found = await ctx.loader.exists(id);
+      if (!found) {
+        lookups.push(id);
+      }
+      return found;
+    };
+    const resolved =
+      hookPath !== undefined
+        ? { path: hookPath, fromPackage: false }
+        : await resolveVirtualPath(includePath, filePath, ctx.root, ctx.resolveOptions, exists);
+    if (!resolved) {
+      return 'missing';
+    }
+    target = { resolvedPath: resolved.path, fromPackage: resolved.fromPackage, lookups };
+  } else {
+    const resolvedPath = resolveFilePath(includePath, filePath);
+    if (resolvedPath === null) {
+      return 'invalid';
+    }
+    target = { resolvedPath: (await ctx.loader.resolve(includePath, filePath)) ?? resolvedPath };
+  }
+
+  if (!path.isAbsolute(target.resolvedPath)) {
+    // Ids that are not paths come from resolveInclude and are not on disk
+    return target;
+  }
+  return (await checkSandbox(ctx.sandbox, target.resolvedPath, target.fromPackage)) ?? target;
+}
+
+/**
+ * Outcome of loading an include target
+ */
+interface IncludeOutcome {
+  code: string;
+  /** Whether the include could not be resolved or read */
+  failed: boolean;
+}
+
+/**
+ * Handles `<!--#include virtual="..." -->` and `<!--#include file="..." -->`,
+ * falling back to the block named by `stub` when the include fails or is empty.
+ * With `set="name"` the rendered include is stored in a variable instead of output.
+ */
+async function executeInclude(
+  directive: SsiDirectiveNode,
+  filePath: string,
+  ctx: SsiContext,
+  seen: Set<string>,
+  depth: number,
+  deps: Set<string>
+): Promise<string> {
+  // Includes render in order, and `wait="yes"` also holds back the reads of the
+  // following includes until this one has rendered
+  const wait = getAttribute(directive, 'wait');
+  if (wait !== undefined && wait !== 'yes' && wait !== 'no') {
+    return reportError(ctx, 'directive', directive, `Invalid wait value: ${wait}`);
+  }
+
+  const diagnosticCount = ctx.diagnostics.length;
+  const outcome = await loadInclude(directive, filePath, ctx, seen, depth, deps);
+  if (!outcome) {
+    return directive.raw;
+  }
+
+  let code = outcome.code;
+  const stub = getAttribute(directive, 'stub');
+  if (stub !== undefined && (outcome.failed || outcome.code === '')) {
+    const block = ctx.blocks.get(stub);
+    if (block === undefined) {
+      return reportError(ctx, 'directive', directive, `Unknown block: ${stub}`);
+    }
+    // As in Nginx, a failure handled by the stub is not an error, so the diagnostics
+    // recorded while loading the include are dropped
+    ctx.diagnostics.splice(diagnosticCount);
+    // Errors in the block are located where it was defined
+    code = await renderNodes(
+      block.nodes,
+      filePath,
+      { ...ctx, file: block.file },
+      seen,
+      depth,
+      deps
+    );
+  }
+
+  const variableName = getAttribute(directive, 'set');
+  if (variableName !== undefined) {
+    ctx.variables.set(variableName, code);
+    ctx.timeVariables.delete(variableName);
+    return '';
+  }
+  return code;
+}
+
+/**
+ * Applies the first `includeTransforms` entry matching the included file's type
+ */
+async function transformInclude(
+  code: string,
+  includedFile: string,
+  filePath: string,
+  ctx: SsiContext
+): Promise<string> {
+  for (const [fileType, transform] of Object.entries(ctx.includeTransforms)) {
+    if (matchesFileType(includedFile, [fileType], ctx.fileTypeMap)) {
+      return transform(code, { id: includedFile, importer: filePath, fileType });
+    }
+  }
+  return code;
+}
+
+/**
+ * Rebases relative URLs in an included HTML or Markdown file to the including file when
+ * `rebaseUrls` is enabled. Markdown is rebased after its transform renders it to HTML.
+ * Nested includes were already rebased to their own including file, so rebasing
+ * composes up to the page.
+ */
+function rebaseInclude(
+  code: string,
+  includedFile: string,
+  filePath: string,
+  ctx: SsiContext
+): string {
+  if (
+    !ctx.rebaseUrls ||
+    !path.isAbsolute(includedFile) ||
+    !path.isAbsolute(filePath) ||
+    !matchesFileType(includedFile, ['html', 'markdown'], ctx.fileTypeMap)
+  ) {
+    return code;
+  }
+  return rebaseHtmlUrls(code, includedFile, filePath);
+}
+
+/**
+ * Renders a `virtual` include served by a fragment module. Returns undefined when the
+ * path does not match a fragment route.
+ */
+async function loadFragment(
+  directive: SsiDirectiveNode,
+  ctx: SsiContext,
+  deps: Set<string>
+): Promise<IncludeOutcome | undefined> {
+  const virtualPath = getAttribute(directive, 'virtual');
+  if (!ctx.fragments || virtualPath === undefined) {
+    return undefined;
+  }
+
+  const includePath = substituteVariables(virtualPath, ctx.variables);
+  const fragment = await resolveFragment(includePath, ctx.fragments.routes, ctx.root);
+  if (fragment === undefined) {
+    return undefined;
+  }
+  if (fragment === null) {
+    return {
+      code: reportError(ctx, 'missing', directive, `File not found: ${includePath}`),
+      failed: true,
+    };
+  }
+
+  deps.add(normalizeId(fragment.file));
+  try {
+    const imported = await ctx.fragments.importModule(fragment.file);
+    imported.deps?.forEach((dep) => deps.add(normalizeId(dep)));
+    const code = await renderFragment(imported.exports, {
+      path: includePath,
+      query: fragment.query,
+      importer: ctx.file.path,
+      variables: Object.fromEntries(ctx.variables),
+    });
+    return { code, failed: false };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return {
+      code: reportError(
+        ctx,
+        'fragment',
+        directive,
+        `Fragment failed for ${includePath}: ${reason}`
+      ),
+      failed: true,
+    };
+  }
+}
+
+/**
+ * Fetches a `virtual` include matching a remote route. Returns `local` when the path does
+ * not match a route, and undefined when the include is left for the server to resolve.
+ */
+async function loadRemote(
+  directive: SsiDirectiveNode,
+  ctx: SsiContext,
+  prefetch: IncludePrefetch | undefined
+): Promise<IncludeOutcome | 'local' | undefined> {
+  const virtualPath = getAttribute(directive, 'virtual');
+  if (!ctx.remote || virtualPath === undefined) {
+    return 'local';
+  }
+
+  const includePath = substituteVariables(virtualPath, ctx.variables);
+  const route = matchRemoteRoute(includePath, ctx.remote.routes);
+  if (!route) {
+    return 'local';
+  }
+  if (ctx.remote.keep) {
+    return undefined;
+  }
+
+  try {
+    const code = await (prefetch?.includePath === includePath && prefetch.remote
+      ? prefetch.remote
+      : fetchRemoteInclude(includePath, route, ctx.remote.timeout, ctx.request));
+    return { code, failed: false };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return {
+      code: reportError(
+        ctx,
+        'remote',
+        directive,
+        `Remote include failed for ${includePath}: ${reason}`
+      ),
+      failed: true,
+    };
+  }
+}
+
+/**
+ * Resolves, reads and processes the target of an include directive.
+ * Returns undefined when the directive has neither `virtual` nor `file`, or is
+ * a remote include left for the server to resolve.
+ */
+async function loadInclude(
+  directive: SsiDirectiveNode,
+  filePath: string,
+  ctx: SsiContext,
+  seen: Set<string>,
+  depth: number,
+  deps: Set<string>
+): Promise<IncludeOutcome | undefined> {
+  // A target read ahead is only used once, as the node may render again in a block
+  const prefetch = ctx.prefetches.get(directive);
+  ctx.prefetches.delete(directive);
+
+  const remote = await loadRemote(directive, ctx, prefetch);
+  if (remote !== 'local') {
+    return remote;
+  }
+
+  const fragment = await loadFragment(directive, ctx, deps);
+  if (fragment) {
+    return fragment;
+  }
+
+  const target = await resolveDirectiveTarget(directive, filePath, ctx, prefetch);
+  if (!target) {
+    return undefined;
+  }
+  if ('error' in target) {
+    return { code: target.error, failed: true };
+  }
+  const { includePath, resolvedPath, lookups = [] } = target;
+
+  // Track dependency, including missing files that would take its place once created
+  deps.add(normalizeId(resolvedPath));
+  lookups.forEach((lookup) => deps.add(normalizeId(lookup)));
+
+  let code: string;
+  try {
+    // Read included file from the loadInclude hook, the file map or disk
+    const prefetched = prefetch?.includePath === includePath ? await prefetch.content : undefined;
+    const includedContent = prefetched ?? (await ctx.loader.load(resolvedPath));
+
+    // Check if this included file should have SSI processing applied
+    // If includeFileTypes is specified and the file matches those types, process it
+    // Otherwise, don't process included files (default: only top-level HTML files are processed)
+    const shouldProcessSsi =
+      ctx.includeFileTypes.length === 0
+        ? false // Default: don't process included files
+        : matchesFileType(resolvedPath, ctx.includeFileTypes, ctx.fileTypeMap);
+
+    if (!shouldProcessSsi) {
+      // Just use the content as-is, but still track it as a dependency
+      code = includedContent;
+    } else {
+      // Recursively process included content with SSI
+      const processed = await processSsiRecursive(
+        resolvedPath,
+        includedContent,
+        ctx,
+        new Set(seen),
+        depth + 1,
+        directive
+      );
 
       // Merge dependencies
       processed.deps.forEach((dep) => deps.add(dep));
-
-      // Replace directive with processed content
-      replacements.push({
-        start: index,
-        end: matchEnd,
-        replacement: processed.code,
-      });
-    } catch (error) {
-      // File not found or other error
-      replacements.push({
-        start: index,
-        end: matchEnd,
-        replacement: `<!-- SSI Error: File not found: ${normalizedResolvedPath} -->`,
-      });
+      code = processed.code;
     }
+  } catch (error) {
+    // File not found or other error. Only the path as written is reported,
+    // so the output never exposes the absolute location on disk.
+    return {
+      code: reportError(ctx, 'missing', directive, `File not found: ${includePath}`),
+      failed: true,
+    };
+  }
+
+  try {
+    code = await transformInclude(code, resolvedPath, filePath, ctx);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return {
+      code: reportError(
+        ctx,
+        'transform',
+        directive,
+        `Transform failed for ${includePath}: ${reason}`
+      ),
+      failed: true,
+    };
   }
+  return { code: rebaseInclude(code, resolvedPath, filePath, ctx), failed: false };
+}
 
-  // Apply replacements in reverse order
-  for (const { start, end, replacement } of replacements) {
-    result = result.slice(0, start) + replacement + result.slice(end);
+/**
+ * Handles `<!--#flastmod ... -->` and `<!--#fsize ... -->`, formatted by `config timefmt`
+ * and `config sizefmt`. The inspected file is tracked as a dependency.
+ */
+async function executeFileInfo(
+  directive: SsiDirectiveNode,
+  filePath: string,
+  ctx: SsiContext,
+  deps: Set<string>
+): Promise<string> {
+  const target = await resolveDirectiveTarget(directive, filePath, ctx);
+  if (!target) {
+    return reportError(
+      ctx,
+      'directive',
+      directive,
+      `${directive.name} requires a "virtual" or "file" attribute`
+    );
   }
+  if ('error' in target) {
+    return target.error;
+  }
+
+  deps.add(normalizeId(target.resolvedPath));
 
-  return { code: result, deps };
+  let stats: IncludeStats;
+  try {
+    // Read from the loadInclude hook, the file map or disk, as an include would be
+    stats = await ctx.loader.stat(target.resolvedPath);
+  } catch {
+    return reportError(ctx, 'missing', directive, `File not found: ${target.includePath}`);
+  }
+  if (directive.name === 'fsize') {
+    return formatSize(stats.size, ctx.config.sizefmt);
+  }
+  if (!stats.mtime) {
+    return reportError(
+      ctx,
+      'directive',
+      directive,
+      `flastmod requires a file on disk: ${target.includePath} has no modification time`
+    );
+  }
+  return strftime(ctx.config.timefmt, stats.mtime);
+}
+
+/**
+ * Runs a handler registered with the `directives` option
+ */
+async function executeCustomDirective(
+  handler: SsiDirectiveHandler,
+  directive: SsiDirectiveNode,
+  filePath: string,
+  ctx: SsiContext,
+  deps: Set<string>
+): Promise<string> {
+  const attributes: Record<string, string> = {};
+  for (const attribute of directive.attributes) {
+    attributes[attribute.name] = substituteVariables(attribute.value, ctx.variables);
+  }
+
+  const context: SsiDirectiveContext = {
+    directive,
+    file: ctx.file.path,
+    root: ctx.root,
+    getVariable: (name) => ctx.variables.get(name),
+    setVariable: (name, value) => {
+      ctx.variables.set(name, value);
+      ctx.timeVariables.delete(name);
+    },
+    resolve: async (includePath, kind = 'virtual') => {
+      const target = await resolveTargetPath(kind, includePath, filePath, ctx);
+      return typeof target === 'string' ? undefined : target.resolvedPath;
+    },
+    load: (id) => {
+      deps.add(normalizeId(id));
+      return ctx.loader.load(id);
+    },
+    addDependency: (id) => {
+      deps.add(normalizeId(id));
+    },
+    error: (message) => reportError(ctx, 'directive', directive, message),
+  };
+
+  try {
+    return await handler(attributes, context);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return reportError(ctx, 'directive', directive, `${directive.name} failed: ${reason}`);
+  }
+}
+
+/**
+ * Handles `<!--#set var="..." value="..." -->`
+ */
+function executeSet(directive: SsiDirectiveNode, ctx: SsiContext): string {
+  const name = getAttribute(directive, 'var');
+  const value = getAttribute(directive, 'value');
+  if (name === undefined || value === undefined) {
+    return reportError(ctx, 'directive', directive, 'set requires "var" and "value" attributes');
+  }
+
+  ctx.variables.set(name, substituteVariables(value, ctx.variables));
+  ctx.timeVariables.delete(name);
+  return '';
+}
+
+/**
+ * Handles `<!--#echo var="..." default="..." encoding="..." -->`
+ */
+function executeEcho(directive: SsiDirectiveNode, ctx: SsiContext): string {
+  const name = getAttribute(directive, 'var');
+  if (name === undefined) {
+    return reportError(ctx, 'directive', directive, 'echo requires a "var" attribute');
+  }
+
+  const encoding = getAttribute(directive, 'encoding') ?? 'entity';
+  if (!isEchoEncoding(encoding)) {
+    return reportError(ctx, 'directive', directive, `Unknown echo encoding: ${encoding}`);
+  }
+
+  const value = ctx.variables.get(name) ?? getAttribute(directive, 'default') ?? UNDEFINED_ECHO;
+  return encodeValue(value, encoding);
+}
+
+/**
+ * Handles `<!--#config errmsg="..." timefmt="..." sizefmt="..." -->`
+ */
+function executeConfig(directive: SsiDirectiveNode, ctx: SsiContext): string {
+  const sizefmt = getAttribute(directive, 'sizefmt');
+  if (sizefmt !== undefined && !isSizeFormat(sizefmt)) {
+    return reportError(ctx, 'directive', directive, `Unknown sizefmt: ${sizefmt}`);
+  }
+
+  const errmsg = getAttribute(directive, 'errmsg');
+  if (errmsg !== undefined) {
+    ctx.config.errmsg = errmsg;
+  }
+  const timefmt = getAttribute(directive, 'timefmt');
+  if (timefmt !== undefined) {
+    ctx.config.timefmt = timefmt;
+    // Like Apache, date variables are re-rendered in the new format
+    for (const [name, { date, gmt }] of ctx.timeVariables) {
+      setTimeVariable(ctx, name, date, gmt);
+    }
+  }
+  if (sizefmt !== undefined) {
+    ctx.config.sizefmt = sizefmt;
+  }
+  return '';
 }
@@ -0,0 +1,97 @@
+/**
+ * Transforms applied to included files by type, e.g. rendering Markdown to HTML
+ */
+import { encodeValue } from './variables';
+
+/**
+ * The include being transformed
+ */
+export interface IncludeTransformContext {
+  /** Resolved id of the included file */
+  id: string;
+  /** Id of the file containing the `include` directive */
+  importer: string;
+  /** File type the transform was registered for, e.g. `markdown` */
+  fileType: string;
+}
+
+/**
+ * Transforms the content of an included file, after its SSI directives were processed
+ */
+export type IncludeTransform = (
+  content: string,
+  context: IncludeTransformContext
+) => string | Promise<string>;
+
+/**
+ * Transforms by file type name from the file type map, e.g. `{ markdown: markdownTransform() }`.
+ * The first entry matching an included file applies.
+ */
+export type IncludeTransforms = Record<string, IncludeTransform>;
+
+/**
+ * Renders included Markdown to HTML with `marked`, an optional peer dependency that
+ * is loaded the first time a Markdown file is included
+ *
+ * @throws Error if `marked` is not installed
+ */
+export function markdownTransform(): IncludeTransform {
+  let loaded: Promise<typeof import('marked')> | undefined;
+  return async (content) => {
+    loaded ??= import('marked').catch(() => {
+      // Installing it afterwards is picked up by the next include
+      loaded = undefined;
+      throw new Error('markdownTransform requires the "marked" package to be installed');
+    });
+    const { marked } = await loaded;
+    return marked.parse(content);
+  };
+}
+
+export interface JsonTransformOptions {
+  /**
+   * Spaces to indent the output with
+   * @default 2
+   */
+  indent?: number;
+  /**
+   * How the output is escaped for embedding:
+   * - `html`: HTML entities, for text content such as `<pre>`
+   * - `script`: Unicode escapes for `<`, `>` and `&`, so the output stays valid JSON
+   *   inside `<script type="application/json">`
+   * @default 'html'
+   */
+  escape?: 'html' | 'script';
+}
+
+/**
+ * Pretty-prints included JSON, escaped for embedding in HTML. Comments and trailing
+ * commas, as in `.jsonc` files, are removed.
+ *
+ * @throws Error if the included file is not valid JSON
+ */
+export function jsonTransform(options: JsonTransformOptions = {}): IncludeTransform {
+  const { indent = 2, escape = 'html' } = options;
+  return (content) => {
+    const json = JSON.stringify(JSON.parse(stripJsonComments(content)), null, indent);
+    if (escape === 'html') {
+      return encodeValue(json, 'entity');
+    }
+    return json
+      .replace(/</g, '\\u003c')
+      .replace(/>/g, '\\u003e')
+      .replace(/&/g, '\\u0026')
+      .replace(/\u2028/g, '\\u2028')
+      .replace(/\u2029/g, '\\u2029');
+  };
+}
+
+/**
+ * Removes comments and trailing commas outside of strings, leaving plain JSON
+ */
+function stripJsonComments(content: string): string {
+  // Strings are matched first and kept, so comment markers inside them are not removed
+  return content
+    .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_, quoted) => quoted ?? '')
+    .replace(/("(?:[^"\\]|\\.)*")|,(?=\s*[}\]])/g, (_, quoted) => quoted ?? '');
+}
@@ -0,0 +1,102 @@
+/**
+ * SSI variable handling shared by the `set` and `echo` directives
+ */
+
+/**
+ * Variables visible to a document while it is being processed
+ */
+export type SsiVariables = Map<string, string>;
+
+/**
+ * Encodings supported by the `echo` directive
+ */
+export type EchoEncoding = 'none' | 'url' | 'entity';
+
+/**
+ * Value printed by `echo` when a variable is undefined and no `default` is given
+ */
+export const UNDEFINED_ECHO = '(none)';
+
+/**
+ * The live request a document is rendered for, in dev and preview
+ */
+export interface SsiRequest {
+  /** Request URL, including the query string */
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Substitutes `$name` and `${name}` references in a directive value.
+ * Undefined variables expand to an empty string, and `\$` produces a literal dollar sign.
+ */
+export function substituteVariables(value: string, variables: SsiVariables): string {
+  return value.replace(
+    /\\\$|\$\{([A-Za-z_][A-Za-z0-9_]*)\}|\$([A-Za-z_][A-Za-z0-9_]*)/g,
+    (match, braced: string | undefined, bare: string | undefined) => {
+      if (match === '\\$') {
+        return '$';
+      }
+      return variables.get((braced ?? bare) as string) ?? '';
+    }
+  );
+}
+
+/**
+ * Checks if a string is a supported `echo` encoding
+ */
+export function isEchoEncoding(value: string): value is EchoEncoding {
+  return value === 'none' || value === 'url' || value === 'entity';
+}
+
+/**
+ * Encodes a value for output by the `echo` directive
+ */
+export function encodeValue(value: string, encoding: EchoEncoding): string {
+  switch (encoding) {
+    case 'none':
+      return value;
+    case 'url':
+      return encodeURIComponent(value);
+    case 'entity':
+      return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+  }
+}
+
+/**
+ * Builds the request variables Apache exposes to SSI documents:
+ * `QUERY_STRING`, `QUERY_STRING_UNESCAPED` and one `HTTP_*` variable per header
+ */
+export function getRequestVariables(request: SsiRequest): Array<[string, string]> {
+  const variables: Array<[string, string]> = [];
+
+  const queryIndex = request.url.indexOf('?');
+  const queryString = queryIndex === -1 ? '' : request.url.slice(queryIndex + 1);
+  let unescaped: string;
+  try {
+    unescaped = decodeURIComponent(queryString);
+  } catch {
+    unescaped = queryString;
+  }
+  variables.push(['QUERY_STRING', queryString]);
+  // Apache escapes shell metacharacters in the unescaped query string
+  variables.push([
+    'QUERY_STRING_UNESCAPED',
+    unescaped.replace(/[&;`'"|*?~<>^()[\]{}$\\\n]/g, '\\$&'),
+  ]);
+
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (value === undefined) {
+      continue;
+    }
+    const variableName = `HTTP_${name.toUpperCase().replace(/-/g, '_')}`;
+    variables.push([variableName, Array.isArray(value) ? value.join(', ') : value]);
+  }
+
+  return variables;
+}
@@ -0,0 +1,41 @@
+import { expect, test } from 'bun:test';
+import { join, resolve } from 'path';
+import { parseSsi, renderSsi, getAttribute, type SsiDirectiveNode } from '../src/index';
+
+const simpleRoot = resolve(import.meta.dir, 'fixtures', 'simple');
+
+test('parseSsi is exported from the package entry', () => {
+  const { nodes, errors } = parseSsi('<!--#include virtual="/header.html" -->');
+
+  expect(errors).toEqual([]);
+  expect(nodes[0].type).toBe('directive');
+  expect(getAttribute(nodes[0] as SsiDirectiveNode, 'virtual')).toBe('/header.html');
+});
+
+test('renderSsi renders a template with a given root', async () => {
+  const result = await renderSsi('<!--#include virtual="/header.html" --><main></main>', {
+    root: simpleRoot,
+  });
+
+  expect(result.code).toContain('Navigation Menu');
+  expect(result.code).toContain('<main></main>');
+  expect(result.deps.has(join(simpleRoot, 'header.html').replace(/\\/g, '/'))).toBe(true);
+});
+
+test('renderSsi renders with given variables', async () => {
+  const result = await renderSsi(
+    '<title><!--#echo var="title" --></title><p><!--#echo var="DOCUMENT_URI" --></p>',
+    { root: simpleRoot, filePath: 'docs/page.html', variables: { title: 'From a script' } }
+  );
+
+  expect(result.code).toBe('<title>From a script</title><p>/docs/page.html</p>');
+});
+
+test('renderSsi resolves relative includes against filePath', async () => {
+  const result = await renderSsi('<!--#include virtual="../footer.html" -->', {
+    root: simpleRoot,
+    filePath: join(simpleRoot, 'nested', 'page.html'),
+  });
+
+  expect(result.code).toContain('Footer Content');
+});
@@ -0,0 +1,65 @@
+import { expect, test, afterEach } from 'bun:test';
+import { createTestProject, buildProject, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+test('stub block replaces a missing include', async () => {
+  const project = await createTestProject('blocks');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('<div class="missing"><p class="fallback">Fallback for page</p></div>');
+  expect(output).not.toContain('File not found');
+
+  // Block definitions are not output where they are defined
+  expect(output).not.toContain('<!--#block');
+  expect(output).not.toContain('<!--#endblock');
+});
+
+test('stub block replaces an empty include', async () => {
+  const project = await createTestProject('blocks');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('<div class="empty"><p class="fallback">Fallback for page</p></div>');
+  expect(output).toContain('<div class="found"><p>Found partial</p>');
+});
+
+test('blocks are visible inside and outside nested includes', async () => {
+  const project = await createTestProject('blocks');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  // Block defined in the page, used in an include
+  expect(output).toContain('<div class="nested"><p class="fallback">Fallback for include</p>');
+
+  // Block defined in an include, used later in the page
+  expect(output).toContain('<div class="from-include"><p>Block from include</p></div>');
+});
+
+test('unknown stub block is reported', async () => {
+  const project = await createTestProject('blocks');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('<div class="unknown"><!-- SSI Error: Unknown block: nope --></div>');
+});
@@ -0,0 +1,85 @@
+import { expect, test, afterEach } from 'bun:test';
+import { join } from 'path';
+import { utimes } from 'fs/promises';
+import {
+  createTestProject,
+  buildProject,
+  startDevServer,
+  startPreviewServer,
+  readBuildOutput,
+} from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+/**
+ * Fetches a page with a query string and a custom header
+ */
+async function fetchWithRequestData(url: string): Promise<string> {
+  const response = await fetch(new URL('/?q=hello%20world', url), {
+    headers: { 'X-Ssi-Test': 'from-header' },
+  });
+  return response.text();
+}
+
+test('build populates document and date variables', async () => {
+  const project = await createTestProject('builtin-variables');
+  projects.push(project);
+
+  const mtime = new Date(Date.UTC(2020, 5, 15, 12, 0, 0));
+  await utimes(join(project.root, 'index.html'), mtime, mtime);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+  const year = String(new Date().getUTCFullYear());
+
+  expect(output).toContain('<p class="name">index.html</p>');
+  expect(output).toContain('<p class="uri">/index.html</p>');
+
+  // Included files see the URI of the page, not their own
+  expect(output).toContain('<p class="partial-uri">/index.html</p>');
+
+  // Date variables are re-rendered when timefmt changes
+  expect(output).toContain(`<p class="date-gmt">${year}</p>`);
+  expect(output).toMatch(/<p class="date-local">\d{4}<\/p>/);
+  expect(output).toContain('<p class="last-modified">2020</p>');
+
+  // No request during build
+  expect(output).toContain('<p class="query">(none)</p>');
+  expect(output).toContain('<p class="header">(none)</p>');
+});
+
+test('dev server populates request variables', async () => {
+  const project = await createTestProject('builtin-variables');
+  projects.push(project);
+  const serverInfo = await startDevServer(project.root);
+  projects.push(serverInfo);
+
+  const html = await fetchWithRequestData(serverInfo.url);
+
+  expect(html).toContain('<p class="uri">/index.html</p>');
+  expect(html).toContain('<p class="query">q=hello world</p>');
+  expect(html).toContain('<p class="header">from-header</p>');
+});
+
+test('preview server populates request variables', async () => {
+  const project = await createTestProject('builtin-variables');
+  projects.push(project);
+
+  await buildProject(project.root, { apply: { build: false } });
+  const serverInfo = await startPreviewServer(project.root, { apply: { preview: true } });
+  projects.push(serverInfo);
+
+  const html = await fetchWithRequestData(serverInfo.url);
+
+  expect(html).toContain('<p class="uri">/index.html</p>');
+  expect(html).toContain('<p class="query">q=hello world</p>');
+  expect(html).toContain('<p class="header">from-header</p>');
+});
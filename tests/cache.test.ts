@@ -0,0 +1,115 @@
+import { expect, test, afterEach, spyOn } from 'bun:test';
+import { promises as fs, utimesSync } from 'fs';
+import { join } from 'path';
+import { build, mergeConfig } from 'vite';
+import { createSsiCache } from '../src/cache';
+import {
+  createTestProject,
+  createViteConfig,
+  readBuildOutput,
+  startDevServer,
+  fetchHtml,
+} from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+/**
+ * Counts reads of a file through `fs.promises.readFile` while `run` is pending
+ */
+async function countReads(file: string, run: () => Promise<void>): Promise<number> {
+  const readFile = spyOn(fs, 'readFile');
+  try {
+    await run();
+    return readFile.mock.calls.filter(([target]) => target === file).length;
+  } finally {
+    readFile.mockRestore();
+  }
+}
+
+test('cache reuses reads until the modification time changes', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+  const cache = createSsiCache();
+  const headerPath = join(project.root, 'header.html');
+
+  const reads = await countReads(headerPath, async () => {
+    expect(await cache.read(headerPath)).toContain('Navigation Menu');
+    expect(await cache.read(headerPath)).toContain('Navigation Menu');
+  });
+  expect(reads).toBe(1);
+
+  await Bun.write(headerPath, '<header>Changed</header>');
+  const future = new Date(Date.now() + 10_000);
+  utimesSync(headerPath, future, future);
+  expect(await cache.read(headerPath)).toBe('<header>Changed</header>');
+});
+
+test('invalidated files are read again', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+  const cache = createSsiCache();
+  const headerPath = join(project.root, 'header.html');
+
+  const reads = await countReads(headerPath, async () => {
+    await cache.read(headerPath);
+    cache.invalidate(headerPath);
+    await cache.read(headerPath);
+    cache.clear();
+    await cache.read(headerPath);
+  });
+  expect(reads).toBe(3);
+});
+
+test('cache reuses parses while the content is unchanged', () => {
+  const cache = createSsiCache();
+  const first = cache.parse('/site/a.html', '<!--#echo var="x" -->');
+
+  expect(cache.parse('/site/a.html', '<!--#echo var="x" -->')).toBe(first);
+  expect(cache.parse('/site/a.html', '<!--#echo var="y" -->')).not.toBe(first);
+});
+
+test('build reads an include shared by several pages once', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+  await Bun.write(
+    join(project.root, 'about.html'),
+    '<html><body><!--#include virtual="header.html" --><h1>About</h1></body></html>'
+  );
+
+  const reads = await countReads(join(project.root, 'header.html'), async () => {
+    await build(
+      mergeConfig(createViteConfig(project.root), {
+        build: {
+          rollupOptions: {
+            input: [join(project.root, 'index.html'), join(project.root, 'about.html')],
+          },
+        },
+      })
+    );
+  });
+
+  expect(reads).toBe(1);
+  expect(await readBuildOutput(project.root)).toContain('Navigation Menu');
+  expect(await readBuildOutput(project.root, 'about.html')).toContain('Navigation Menu');
+});
+
+test('dev server renders each request in a single pass', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+  const devServer = await startDevServer(project.root);
+  projects.push(devServer);
+
+  const reads = await countReads(join(project.root, 'header.html'), async () => {
+    await fetchHtml(devServer.url, '/');
+    await fetchHtml(devServer.url, '/');
+  });
+
+  expect(reads).toBe(1);
+});
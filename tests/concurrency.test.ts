@@ -0,0 +1,129 @@
+import { expect, test } from 'bun:test';
+import { renderSsi } from '../src/index';
+import { wait } from './utils';
+
+/**
+ * A `loadInclude` hook that takes a while per file and records when reads start and end
+ */
+function createSlowLoader(files: Record<string, string>, delay = 20) {
+  const events: string[] = [];
+  let active = 0;
+  let maxActive = 0;
+
+  const loadInclude = async (id: string) => {
+    const name = id.replace(/^\/site/, '');
+    events.push(`start ${name}`);
+    active++;
+    maxActive = Math.max(maxActive, active);
+    await wait(delay);
+    active--;
+    events.push(`end ${name}`);
+    return files[name];
+  };
+
+  return { loadInclude, events, getMaxActive: () => maxActive };
+}
+
+const partials = {
+  '/a.html': 'A',
+  '/b.html': 'B',
+  '/c.html': 'C',
+  '/d.html': 'D',
+  '/e.html': 'E',
+};
+
+const page = ['a', 'b', 'c', 'd', 'e']
+  .map((name) => `<!--#include virtual="/${name}.html" -->`)
+  .join('|');
+
+test('sibling includes are read concurrently and rendered in order', async () => {
+  const loader = createSlowLoader(partials);
+  const result = await renderSsi(page, {
+    root: '/site',
+    files: partials,
+    loadInclude: loader.loadInclude,
+    concurrency: 2,
+  });
+
+  expect(result.code).toBe('A|B|C|D|E');
+  expect(loader.getMaxActive()).toBe(2);
+  expect(Array.from(result.deps)).toEqual(
+    ['a', 'b', 'c', 'd', 'e'].map((name) => `/site/${name}.html`)
+  );
+});
+
+test('concurrency of 1 reads includes one by one', async () => {
+  const loader = createSlowLoader(partials);
+  const result = await renderSsi(page, {
+    root: '/site',
+    files: partials,
+    loadInclude: loader.loadInclude,
+    concurrency: 1,
+  });
+
+  expect(result.code).toBe('A|B|C|D|E');
+  expect(loader.getMaxActive()).toBe(1);
+});
+
+test('includes whose path is set by an earlier sibling are read in their turn', async () => {
+  const files = {
+    '/a.html': '<!--#set var="next" value="c" -->A',
+    '/b.html': 'B',
+    '/c.html': 'C',
+  };
+  const result = await renderSsi(
+    '<!--#set var="next" value="b" -->' +
+      '<!--#include virtual="/a.html" -->|<!--#include virtual="/${next}.html" -->',
+    { root: '/site', files, includeFileTypes: ['html'] }
+  );
+
+  expect(result.code).toBe('A|C');
+  expect(result.deps.has('/site/b.html')).toBe(false);
+});
+
+test('wait="yes" holds back the reads of later includes', async () => {
+  const loader = createSlowLoader(partials);
+  const result = await renderSsi(
+    '<!--#include virtual="/a.html" -->|<!--#include virtual="/b.html" wait="yes" -->|' +
+      '<!--#include virtual="/c.html" -->|<!--#include virtual="/d.html" -->',
+    { root: '/site', files: partials, loadInclude: loader.loadInclude }
+  );
+
+  expect(result.code).toBe('A|B|C|D');
+  const endOfB = loader.events.indexOf('end /b.html');
+  expect(loader.events.indexOf('start /b.html')).toBeGreaterThan(
+    loader.events.indexOf('start /a.html')
+  );
+  expect(loader.events.indexOf('start /c.html')).toBeGreaterThan(endOfB);
+  expect(loader.events.indexOf('start /d.html')).toBeGreaterThan(endOfB);
+});
+
+test('siblings including the same file are not cycles', async () => {
+  const files = {
+    '/a.html': '<!--#include virtual="/b.html" -->',
+    '/b.html': 'B',
+    '/loop.html': '<!--#include virtual="/loop.html" -->',
+  };
+  const result = await renderSsi(
+    '<!--#include virtual="/a.html" -->|<!--#include virtual="/a.html" -->|' +
+      '<!--#include virtual="/loop.html" -->',
+    { root: '/site', files, includeFileTypes: ['html'] }
+  );
+
+  expect(result.code).toBe(
+    'B|B|<!-- SSI Error: Circular include detected: loop.html -> loop.html -->'
+  );
+  expect(result.diagnostics).toHaveLength(1);
+});
+
+test('errors of includes read ahead are reported in document order', async () => {
+  const result = await renderSsi(
+    '<!--#include virtual="/missing-1.html" -->|<!--#include virtual="/missing-2.html" -->',
+    { root: '/site', files: {} }
+  );
+
+  expect(result.diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+    'File not found: /missing-1.html',
+    'File not found: /missing-2.html',
+  ]);
+});
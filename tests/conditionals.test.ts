@@ -0,0 +1,91 @@
+import { expect, test, afterEach } from 'bun:test';
+import { join } from 'path';
+import { processSsi, normalizePath } from '../src/ssi';
+import { createTestProject, buildProject, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+test('build outputs only the taken branch', async () => {
+  const project = await createTestProject('conditionals');
+  projects.push(project);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('Marketing Header');
+  expect(output).not.toContain('App Header');
+  expect(output).not.toContain('No header');
+
+  // Should not contain conditional directives
+  expect(output).not.toMatch(/<!--#(if|elif|else|endif)/);
+});
+
+test('regex, logical operators and elif', async () => {
+  const project = await createTestProject('conditionals');
+  projects.push(project);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('Regex matched');
+  expect(output).toContain('Elif taken');
+  expect(output).not.toContain('class="undefined"');
+  expect(output).not.toContain('class="else"');
+});
+
+test('nested blocks inside a branch that is not taken', async () => {
+  const project = await createTestProject('conditionals');
+  projects.push(project);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).not.toContain('class="nested"');
+  expect(output).toContain('Outer else taken');
+});
+
+test('invalid expressions are reported', async () => {
+  const project = await createTestProject('conditionals');
+  projects.push(project);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('SSI Error: Invalid expression');
+  expect(output).not.toContain('class="invalid"');
+});
+
+test('includes in branches that are not taken are not dependencies', async () => {
+  const project = await createTestProject('conditionals');
+  projects.push(project);
+
+  const filePath = join(project.root, 'index.html');
+  const html = await Bun.file(filePath).text();
+  const result = await processSsi(filePath, html, { root: project.root, maxDepth: 10 });
+
+  expect(result.deps.has(normalizePath(join(project.root, 'header-marketing.html')))).toBe(true);
+  expect(result.deps.has(normalizePath(join(project.root, 'header-app.html')))).toBe(false);
+});
+
+test('unbalanced conditionals are reported', async () => {
+  const filePath = join(import.meta.dir, 'fixtures', 'conditionals', 'unbalanced.html');
+  const result = await processSsi(filePath, '<!--#else --><!--#if expr="a" -->open', {
+    root: join(import.meta.dir, 'fixtures', 'conditionals'),
+    maxDepth: 10,
+  });
+
+  expect(result.code).toContain('SSI Error: else without matching if');
+  expect(result.code).toContain('open');
+  expect(result.code).toContain('SSI Error: Missing endif');
+});
@@ -0,0 +1,43 @@
+import { expect, test, afterEach } from 'bun:test';
+import { createTestProject, buildProject, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+test('config errmsg replaces later error messages', async () => {
+  const project = await createTestProject('config');
+  projects.push(project);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  // Errors before the config directive keep the default format
+  expect(output).toContain(
+    '<div class="default"><!-- SSI Error: File not found: missing-before-config.html --></div>'
+  );
+  expect(output).toContain(
+    '<div class="custom">[an error occurred while processing this directive]</div>'
+  );
+  expect(output).not.toContain('missing-after-config.html');
+  expect(output).not.toContain('<!--#config');
+});
+
+test('config rejects unknown sizefmt values', async () => {
+  const project = await createTestProject('config');
+  projects.push(project);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain(
+    '<div class="sizefmt">[an error occurred while processing this directive]</div>'
+  );
+});
@@ -0,0 +1,168 @@
+import { expect, test, afterEach } from 'bun:test';
+import type { Plugin } from 'vite';
+import { renderSsi } from '../src/index';
+import { formatDiagnostic, getLineColumn } from '../src/diagnostics';
+import { createTestProject, buildProject, startDevServer, fetchHtml } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+test('getLineColumn returns 1-based positions', () => {
+  expect(getLineColumn('abc', 0)).toEqual({ line: 1, column: 1 });
+  expect(getLineColumn('abc\n  def', 6)).toEqual({ line: 2, column: 3 });
+});
+
+test('missing includes are reported with their position and include chain', async () => {
+  const result = await renderSsi('<body>\n  <!--#include virtual="/partials/layout.html" -->', {
+    root: '/site',
+    includeFileTypes: ['html'],
+    files: {
+      '/partials/layout.html': '<main>\n\n    <!--#include virtual="footer.html" --></main>',
+    },
+  });
+
+  expect(result.diagnostics).toEqual([
+    {
+      category: 'missing',
+      message: 'File not found: footer.html',
+      file: '/site/partials/layout.html',
+      line: 3,
+      column: 5,
+      chain: ['/site/index.html', '/site/partials/layout.html'],
+    },
+  ]);
+  expect(formatDiagnostic(result.diagnostics[0], '/site')).toBe(
+    'File not found: footer.html\n  at partials/layout.html:3:5\n  included from index.html'
+  );
+});
+
+test('cycles are reported at the include that closes them', async () => {
+  const result = await renderSsi('<!--#include virtual="/a.html" -->', {
+    root: '/site',
+    includeFileTypes: ['html'],
+    files: {
+      '/a.html': '<!--#include virtual="/b.html" -->',
+      '/b.html': 'B\n<!--#include virtual="/a.html" -->',
+    },
+  });
+
+  expect(result.diagnostics).toHaveLength(1);
+  expect(result.diagnostics[0]).toMatchObject({
+    category: 'cycle',
+    file: '/site/b.html',
+    line: 2,
+    column: 1,
+    chain: ['/site/index.html', '/site/a.html', '/site/b.html'],
+  });
+  // The output never shows where the project is on disk
+  expect(result.code).toBe(
+    'B\n<!-- SSI Error: Circular include detected: a.html -> b.html -> a.html -->'
+  );
+});
+
+test('depth limit errors are reported at the include that exceeds it', async () => {
+  const result = await renderSsi('<!--#include virtual="/a.html" -->', {
+    root: '/site',
+    maxDepth: 1,
+    includeFileTypes: ['html'],
+    files: { '/a.html': 'A' },
+  });
+
+  expect(result.diagnostics).toEqual([
+    {
+      category: 'depth',
+      message: 'Maximum include depth (1) exceeded',
+      file: '/site/index.html',
+      line: 1,
+      column: 1,
+      chain: ['/site/index.html'],
+    },
+  ]);
+});
+
+test('parse and directive errors are categorized', async () => {
+  const result = await renderSsi('<!--#echo -->\n<!--#include virtual= -->\n<!--#endif -->', {
+    root: '/site',
+  });
+
+  expect(result.diagnostics.map((d) => [d.category, d.line])).toEqual([
+    ['directive', 1],
+    ['parse', 2],
+    ['parse', 3],
+  ]);
+});
+
+test('errors in stub blocks are located where the block is defined', async () => {
+  const result = await renderSsi(
+    '<!--#block name="fallback" -->\n<!--#echo --><!--#endblock --><!--#include virtual="/partial.html" -->',
+    {
+      root: '/site',
+      includeFileTypes: ['html'],
+      files: { '/partial.html': '\n\n<!--#include virtual="/missing.html" stub="fallback" -->' },
+    }
+  );
+
+  expect(result.diagnostics.map((d) => [d.message, d.file, d.line])).toEqual([
+    ['echo requires a "var" attribute', '/site/index.html', 2],
+  ]);
+});
+
+test('diagnostics are reported as build warnings', async () => {
+  const project = await createTestProject('missing');
+  projects.push(project);
+
+  const warnings: string[] = [];
+  const collectWarnings: Plugin = {
+    name: 'collect-warnings',
+    config: () => ({
+      build: {
+        rollupOptions: {
+          onwarn: (warning) => {
+            if (warning.plugin === 'vite-plugin-ssi') {
+              warnings.push(warning.message);
+            }
+          },
+        },
+      },
+    }),
+  };
+
+  await buildProject(project.root, {}, [collectWarnings]);
+
+  expect(warnings).toHaveLength(1);
+  expect(warnings[0]).toContain('File not found: nonexistent.html');
+  expect(warnings[0]).toContain('at index.html:5:5');
+});
+
+test('diagnostics are sent to the dev error overlay', async () => {
+  const project = await createTestProject('missing');
+  projects.push(project);
+
+  const payloads: Array<{ type: string; err?: { message: string; plugin?: string } }> = [];
+  const captureErrors: Plugin = {
+    name: 'capture-errors',
+    configureServer(server) {
+      const send = server.ws.send.bind(server.ws);
+      server.ws.send = ((payload: { type: string }) => {
+        payloads.push(payload);
+        return send(payload as never);
+      }) as typeof server.ws.send;
+    },
+  };
+
+  const devServer = await startDevServer(project.root, {}, [captureErrors]);
+  projects.push(devServer);
+
+  await fetchHtml(devServer.url);
+
+  const errors = payloads.filter((payload) => payload.type === 'error');
+  expect(errors).toHaveLength(1);
+  expect(errors[0].err?.plugin).toBe('vite-plugin-ssi');
+  expect(errors[0].err?.message).toContain('File not found: nonexistent.html');
+});
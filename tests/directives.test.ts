@@ -0,0 +1,155 @@
+import { expect, test, afterEach } from 'bun:test';
+import vitePluginSsi, { renderSsi, type SsiDirectives } from '../src/index';
+import { createTestProject, startDevServer, fetchHtml } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+const files = {
+  '/icons/menu.svg': '<svg id="menu"></svg>',
+  '/secret.txt': 'secret',
+};
+
+const directives: SsiDirectives = {
+  icon: async ({ name }, ctx) => {
+    const file = await ctx.resolve(`/icons/${name}.svg`);
+    if (!file) {
+      return ctx.error(`Unknown icon: ${name}`);
+    }
+    try {
+      return await ctx.load(file);
+    } catch {
+      return ctx.error(`Unknown icon: ${name}`);
+    }
+  },
+};
+
+test('unknown directives are left untouched', async () => {
+  const result = await renderSsi('<!--#icon name="menu" -->', { root: '/site', files });
+
+  expect(result.code).toBe('<!--#icon name="menu" -->');
+});
+
+test('custom directives render in place and track loaded files as dependencies', async () => {
+  const result = await renderSsi('<nav><!--#icon name="menu" --></nav>', {
+    root: '/site',
+    files,
+    directives,
+  });
+
+  expect(result.code).toBe('<nav><svg id="menu"></svg></nav>');
+  expect(result.deps.has('/site/icons/menu.svg')).toBe(true);
+});
+
+test('custom directive attributes have variables substituted', async () => {
+  const result = await renderSsi('<!--#set var="icon" value="menu" --><!--#ICON name="$icon" -->', {
+    root: '/site',
+    files,
+    directives,
+  });
+
+  expect(result.code).toBe('<svg id="menu"></svg>');
+});
+
+test('custom directives can read and set variables', async () => {
+  const result = await renderSsi(
+    '<!--#set var="title" value="Home" --><!--#upper var="title" --><!--#echo var="title" -->',
+    {
+      root: '/site',
+      directives: {
+        upper: ({ var: name }, ctx) => {
+          ctx.setVariable(name, (ctx.getVariable(name) ?? '').toUpperCase());
+          return '';
+        },
+      },
+    }
+  );
+
+  expect(result.code).toBe('HOME');
+});
+
+test('custom directives receive the current file and can add dependencies', async () => {
+  const seen: string[] = [];
+  const result = await renderSsi('<!--#data src="/data/menu.json" -->', {
+    root: '/site',
+    filePath: 'docs/index.html',
+    directives: {
+      data: async ({ src }, ctx) => {
+        seen.push(ctx.file, ctx.root);
+        ctx.addDependency(`${ctx.root}${src}`);
+        return '';
+      },
+    },
+  });
+
+  expect(seen).toEqual(['/site/docs/index.html', '/site']);
+  expect(result.deps.has('/site/data/menu.json')).toBe(true);
+});
+
+test('resolve applies the include sandbox', async () => {
+  const result = await renderSsi('<!--#where path="/../outside.txt" -->', {
+    root: '/site',
+    directives: {
+      where: async ({ path }, ctx) => (await ctx.resolve(path)) ?? 'not allowed',
+    },
+  });
+
+  expect(result.code).toBe('not allowed');
+});
+
+test('errors from custom directives are reported as directive errors', async () => {
+  const result = await renderSsi('<!--#icon name="missing" -->|<!--#fail -->', {
+    root: '/site',
+    files,
+    directives: {
+      ...directives,
+      fail: () => {
+        throw new Error('boom');
+      },
+    },
+  });
+
+  expect(result.code).toBe(
+    '<!-- SSI Error: Unknown icon: missing -->|<!-- SSI Error: fail failed: boom -->'
+  );
+  expect(result.diagnostics.map((diagnostic) => diagnostic.category)).toEqual([
+    'directive',
+    'directive',
+  ]);
+});
+
+test('reserved command names cannot be registered', async () => {
+  const render = (directives: SsiDirectives) =>
+    renderSsi('<!--#echo var="a" -->', { root: '/site', directives });
+
+  await expect(render({ echo: () => 'custom' })).rejects.toThrow(
+    'Custom directives cannot use the reserved command names: echo'
+  );
+  await expect(render({ Block: () => '', endif: () => '' })).rejects.toThrow(
+    'reserved command names: Block, endif'
+  );
+  expect(() => vitePluginSsi({ directives: { elif: () => '' } })).toThrow(
+    'reserved command names: elif'
+  );
+});
+
+test('dev server renders custom directives', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+
+  const devServer = await startDevServer(project.root, {
+    directives: { greeting: ({ name }) => `<p>Hello, ${name}</p>` },
+    loadInclude: (id) => (id.endsWith('header.html') ? '<!--#greeting name="dev" -->' : null),
+    includeFileTypes: ['html'],
+  });
+  projects.push(devServer);
+
+  const html = await fetchHtml(devServer.url);
+  expect(html).toContain('<p>Hello, dev</p>');
+});
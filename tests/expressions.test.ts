@@ -0,0 +1,48 @@
+import { expect, test } from 'bun:test';
+import { evaluateExpression } from '../src/expressions';
+
+const variables = new Map([
+  ['name', 'world'],
+  ['greeting', 'hello world'],
+  ['empty', ''],
+]);
+
+test('variable truthiness', () => {
+  expect(evaluateExpression('$name', variables)).toBe(true);
+  expect(evaluateExpression('$empty', variables)).toBe(false);
+  expect(evaluateExpression('$undefined', variables)).toBe(false);
+});
+
+test('nginx string comparisons', () => {
+  expect(evaluateExpression('$name = world', variables)).toBe(true);
+  expect(evaluateExpression('$name != world', variables)).toBe(false);
+  expect(evaluateExpression('$greeting = hello world', variables)).toBe(true);
+});
+
+test('regex matches', () => {
+  expect(evaluateExpression('$name = /^wor/', variables)).toBe(true);
+  expect(evaluateExpression('$name != /^wor/', variables)).toBe(false);
+  expect(evaluateExpression('$greeting = /o\\sw/', variables)).toBe(true);
+});
+
+test('apache legacy operators', () => {
+  expect(evaluateExpression("${name} == 'world'", variables)).toBe(true);
+  expect(evaluateExpression('$name < zebra', variables)).toBe(true);
+  expect(evaluateExpression('$name >= zebra', variables)).toBe(false);
+  expect(evaluateExpression("'$name' = world && !$empty", variables)).toBe(true);
+  expect(evaluateExpression('$empty || $name = nope', variables)).toBe(false);
+  expect(evaluateExpression('!($name = world || $empty)', variables)).toBe(false);
+});
+
+test('variable values are not parsed as operators', () => {
+  const values = new Map([['tricky', 'a && b']]);
+  expect(evaluateExpression("$tricky = 'a && b'", values)).toBe(true);
+});
+
+test('malformed expressions throw', () => {
+  expect(() => evaluateExpression('', variables)).toThrow('Empty expression');
+  expect(() => evaluateExpression('($name', variables)).toThrow('Missing closing parenthesis');
+  expect(() => evaluateExpression('$name = /abc', variables)).toThrow('Unterminated');
+  expect(() => evaluateExpression("'abc", variables)).toThrow('Unterminated string');
+  expect(() => evaluateExpression('$name =', variables)).toThrow('Expected a value');
+});
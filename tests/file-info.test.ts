@@ -0,0 +1,90 @@
+import { expect, test, afterEach } from 'bun:test';
+import { join } from 'path';
+import { utimes } from 'fs/promises';
+import { processSsi, normalizePath } from '../src/ssi';
+import { createTestProject, buildProject, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+/**
+ * Creates a 2048 byte download last modified in the middle of 2020
+ */
+async function createDownload(root: string): Promise<string> {
+  const downloadPath = join(root, 'download.txt');
+  await Bun.write(downloadPath, 'x'.repeat(2048));
+  const mtime = new Date(Date.UTC(2020, 5, 15, 12, 0, 0));
+  await utimes(downloadPath, mtime, mtime);
+  return downloadPath;
+}
+
+test('flastmod uses timefmt', async () => {
+  const project = await createTestProject('file-info');
+  projects.push(project);
+  await createDownload(project.root);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('<p class="flastmod">Updated 2020-06-15</p>');
+  expect(output).not.toContain('<!--#flastmod');
+});
+
+test('fsize uses sizefmt', async () => {
+  const project = await createTestProject('file-info');
+  projects.push(project);
+  await createDownload(project.root);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('<p class="abbrev">2.0K</p>');
+  expect(output).toContain('<p class="bytes">2,048</p>');
+  expect(output).toContain(
+    '<p class="missing"><!-- SSI Error: File not found: not-a-download.txt --></p>'
+  );
+});
+
+test('inspected files are tracked as dependencies', async () => {
+  const project = await createTestProject('file-info');
+  projects.push(project);
+  const downloadPath = await createDownload(project.root);
+
+  const filePath = join(project.root, 'index.html');
+  const html = await Bun.file(filePath).text();
+  const result = await processSsi(filePath, html, { root: project.root, maxDepth: 10 });
+
+  expect(result.deps.has(normalizePath(downloadPath))).toBe(true);
+});
+
+test('fsize reads files from the file map and loadInclude', async () => {
+  const html =
+    '<!--#config sizefmt="bytes" --><!--#fsize virtual="/map.txt" --> <!--#fsize virtual="/cms/page.txt" -->';
+  const result = await processSsi('/site/index.html', html, {
+    root: '/site',
+    files: { '/map.txt': 'x'.repeat(2048) },
+    loadInclude: (id) => (id === '/site/cms/page.txt' ? 'héllo' : null),
+  });
+
+  expect(result.code).toBe('2,048 6');
+  expect(result.diagnostics).toEqual([]);
+});
+
+test('flastmod reports files that are not on disk', async () => {
+  const html = '<!--#flastmod virtual="/map.txt" -->';
+  const result = await processSsi('/site/index.html', html, {
+    root: '/site',
+    files: { '/map.txt': 'Map' },
+  });
+
+  expect(result.code).toContain('flastmod requires a file on disk');
+  expect(result.diagnostics).toMatchObject([{ category: 'directive' }]);
+});
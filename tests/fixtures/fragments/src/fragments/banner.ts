@@ -0,0 +1,5 @@
+import { label } from '../lib/label';
+
+export default function banner({ variables }: { variables: Record<string, string> }): string {
+  return `<div class="banner">${label(variables.site)}</div>`;
+}
@@ -0,0 +1,9 @@
+const posts = ['First post', 'Second post', 'Third post'];
+
+export default async function latestPosts({ query }: { query: URLSearchParams }): Promise<string> {
+  const limit = Number(query.get('limit') ?? posts.length);
+  return `<ul>${posts
+    .slice(0, limit)
+    .map((post) => `<li>${post}</li>`)
+    .join('')}</ul>`;
+}
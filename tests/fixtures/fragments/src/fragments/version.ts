@@ -0,0 +1,5 @@
+import version from 'virtual:site-version';
+
+export default function versionBadge(): string {
+  return `<span class="version">${version}</span>`;
+}
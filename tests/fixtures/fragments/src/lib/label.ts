@@ -0,0 +1,3 @@
+export function label(site: string): string {
+  return `Built for ${site}`;
+}
@@ -0,0 +1,51 @@
+import { expect, test } from 'bun:test';
+import { strftime, formatSize, DEFAULT_TIME_FORMAT } from '../src/format';
+
+// Tuesday, 5 March 2024 14:07:09 GMT
+const date = new Date(Date.UTC(2024, 2, 5, 14, 7, 9));
+
+test('strftime default format in GMT', () => {
+  expect(strftime(DEFAULT_TIME_FORMAT, date, true)).toBe('Tuesday, 05-Mar-2024 14:07:09 GMT');
+});
+
+test('strftime conversion specifications', () => {
+  expect(strftime('%a %b %e %H:%M:%S %Y', date, true)).toBe('Tue Mar  5 14:07:09 2024');
+  expect(strftime('%c', date, true)).toBe('Tue Mar  5 14:07:09 2024');
+  expect(strftime('%F %T', date, true)).toBe('2024-03-05 14:07:09');
+  expect(strftime('%D %R', date, true)).toBe('03/05/24 14:07');
+  expect(strftime('%I:%M %p %P', date, true)).toBe('02:07 PM pm');
+  expect(strftime('%j %u %w', date, true)).toBe('065 2 2');
+  expect(strftime('%U %W %V %G %g', date, true)).toBe('09 10 10 2024 24');
+  expect(strftime('%s', date, true)).toBe('1709647629');
+  expect(strftime('%z %Z %%', date, true)).toBe('+0000 GMT %');
+  expect(strftime('%C %y %B %A', date, true)).toBe('20 24 March Tuesday');
+});
+
+test('strftime leaves unknown specifications unchanged', () => {
+  expect(strftime('%Q %Y', date, true)).toBe('%Q 2024');
+});
+
+test('strftime ISO week at year boundaries', () => {
+  // Friday, 1 January 2021 belongs to week 53 of 2020
+  const newYear = new Date(Date.UTC(2021, 0, 1));
+  expect(strftime('%G-W%V', newYear, true)).toBe('2020-W53');
+});
+
+test('strftime uses the local timezone unless GMT is requested', () => {
+  const hours = String(date.getHours()).padStart(2, '0');
+  expect(strftime('%H', date)).toBe(hours);
+});
+
+test('formatSize in bytes', () => {
+  expect(formatSize(0, 'bytes')).toBe('0');
+  expect(formatSize(1234567, 'bytes')).toBe('1,234,567');
+});
+
+test('formatSize abbreviated like Apache', () => {
+  expect(formatSize(500, 'abbrev')).toBe('500 ');
+  expect(formatSize(12, 'abbrev')).toBe(' 12 ');
+  expect(formatSize(1024, 'abbrev')).toBe('1.0K');
+  expect(formatSize(1536, 'abbrev')).toBe('1.5K');
+  expect(formatSize(20480, 'abbrev')).toBe(' 20K');
+  expect(formatSize(5 * 1024 * 1024, 'abbrev')).toBe('5.0M');
+});
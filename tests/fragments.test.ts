@@ -0,0 +1,197 @@
+import { expect, test, afterEach } from 'bun:test';
+import { join } from 'path';
+import type { Plugin } from 'vite';
+import { renderSsi } from '../src/index';
+import type { FragmentImporter } from '../src/fragments';
+import {
+  createTestProject,
+  buildProject,
+  readBuildOutput,
+  startDevServer,
+  startPreviewServer,
+  fetchHtml,
+  wait,
+} from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+const fixtureRoot = join(import.meta.dir, 'fixtures', 'fragments');
+
+// Imports fragment modules directly, standing in for ssrLoadModule
+const importModule: FragmentImporter = async (file) => ({ exports: await import(file) });
+
+test('fragment routes render the default export of a module', async () => {
+  const result = await renderSsi(
+    '<!--#set var="site" value="Docs" --><!--#include virtual="/_fragments/banner" -->',
+    { root: fixtureRoot, fragments: { routes: { '/_fragments': 'src/fragments' }, importModule } }
+  );
+
+  expect(result.code).toBe('<div class="banner">Built for Docs</div>');
+  expect(result.deps.has(join(fixtureRoot, 'src/fragments/banner.ts'))).toBe(true);
+});
+
+test('fragments receive the query and resolve index modules', async () => {
+  const result = await renderSsi('<!--#include virtual="/_fragments/posts?limit=1" -->', {
+    root: fixtureRoot,
+    fragments: { routes: { '/_fragments/': 'src/fragments' }, importModule },
+  });
+
+  expect(result.code).toBe('<ul><li>First post</li></ul>');
+});
+
+test('fragments receive the path and importer and may export a string', async () => {
+  const calls: unknown[] = [];
+  const result = await renderSsi(
+    '<!--#include virtual="/_fragments/banner?x=1" -->|<!--#include virtual="/_fragments/posts" -->',
+    {
+      root: fixtureRoot,
+      filePath: 'docs/index.html',
+      fragments: {
+        routes: { '/_fragments/': 'src/fragments' },
+        importModule: async (file) =>
+          file.endsWith('banner.ts')
+            ? {
+                exports: {
+                  default: ({ path, importer }: { path: string; importer: string }) => {
+                    calls.push({ path, importer });
+                    return 'banner';
+                  },
+                },
+              }
+            : { exports: { default: 'static' } },
+      },
+    }
+  );
+
+  expect(result.code).toBe('banner|static');
+  expect(calls).toEqual([
+    { path: '/_fragments/banner?x=1', importer: join(fixtureRoot, 'docs/index.html') },
+  ]);
+});
+
+test('missing and failing fragments are reported', async () => {
+  const result = await renderSsi(
+    '<!--#include virtual="/_fragments/nope" -->|<!--#include virtual="/_fragments/banner" -->',
+    {
+      root: fixtureRoot,
+      fragments: {
+        routes: { '/_fragments/': 'src/fragments' },
+        importModule: async () => ({
+          exports: {
+            default: () => {
+              throw new Error('no data');
+            },
+          },
+        }),
+      },
+    }
+  );
+
+  expect(result.code).toBe(
+    '<!-- SSI Error: File not found: /_fragments/nope -->|' +
+      '<!-- SSI Error: Fragment failed for /_fragments/banner: no data -->'
+  );
+  expect(result.diagnostics.map((diagnostic) => diagnostic.category)).toEqual([
+    'missing',
+    'fragment',
+  ]);
+});
+
+test('paths outside fragment routes are included as usual', async () => {
+  const result = await renderSsi('<!--#include virtual="/src/lib/label.ts" -->', {
+    root: fixtureRoot,
+    fragments: { routes: { '/_fragments/': 'src/fragments' }, importModule },
+  });
+
+  expect(result.code).toContain('export function label');
+});
+
+test('build renders fragments with a bundled SSR pass', async () => {
+  const project = await createTestProject('fragments');
+  projects.push(project);
+
+  await buildProject(project.root, { fragments: { '/_fragments/': 'src/fragments' } });
+
+  const output = await readBuildOutput(project.root);
+  expect(output).toContain('<div class="banner">Built for Docs</div>');
+  expect(output).toContain('<ul><li>First post</li><li>Second post</li></ul>');
+  expect(output).not.toContain('SSI Error');
+});
+
+/**
+ * A project plugin providing a virtual module that fragments import
+ */
+function siteVersionPlugin(): Plugin {
+  return {
+    name: 'site-version',
+    resolveId: (id) => (id === 'virtual:site-version' ? '\0site-version' : undefined),
+    load: (id) => (id === '\0site-version' ? 'export default "v2.1";' : undefined),
+  };
+}
+
+test('build bundles fragments with the project plugins', async () => {
+  const project = await createTestProject('fragments');
+  projects.push(project);
+  await Bun.write(
+    join(project.root, 'index.html'),
+    '<html><body><!--#include virtual="/_fragments/version" --></body></html>'
+  );
+
+  await buildProject(project.root, { fragments: { '/_fragments/': 'src/fragments' } }, [
+    siteVersionPlugin(),
+  ]);
+
+  const output = await readBuildOutput(project.root);
+  expect(output).toContain('<span class="version">v2.1</span>');
+  expect(output).not.toContain('SSI Error');
+});
+
+test('preview renders fragments left in the built HTML', async () => {
+  const project = await createTestProject('fragments');
+  projects.push(project);
+  const fragments = { '/_fragments/': 'src/fragments' };
+
+  // The build leaves the include to preview
+  await buildProject(project.root, { fragments, apply: { build: false } }, [siteVersionPlugin()]);
+  await Bun.write(
+    join(project.root, 'dist/version.html'),
+    '<html><body><!--#include virtual="/_fragments/version" --></body></html>'
+  );
+  const previewServer = await startPreviewServer(project.root, { fragments }, [
+    siteVersionPlugin(),
+  ]);
+  projects.push(previewServer);
+
+  const html = await fetchHtml(previewServer.url, '/version.html');
+  expect(html).toContain('<span class="version">v2.1</span>');
+});
+
+test('dev server renders fragments with ssrLoadModule and reloads their imports', async () => {
+  const project = await createTestProject('fragments');
+  projects.push(project);
+
+  const devServer = await startDevServer(project.root, {
+    fragments: { '/_fragments/': 'src/fragments' },
+  });
+  projects.push(devServer);
+
+  const html = await fetchHtml(devServer.url);
+  expect(html).toContain('<div class="banner">Built for Docs</div>');
+  expect(html).toContain('<ul><li>First post</li><li>Second post</li></ul>');
+
+  await Bun.write(
+    join(project.root, 'src/lib/label.ts'),
+    'export function label(site: string): string {\n  return `Updated for ${site}`;\n}\n'
+  );
+  await wait(500);
+
+  const updated = await fetchHtml(devServer.url);
+  expect(updated).toContain('<div class="banner">Updated for Docs</div>');
+});
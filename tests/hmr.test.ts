@@ -1,6 +1,8 @@
-import { expect, test, afterEach } from 'bun:test';
+import { expect, test, afterEach, spyOn } from 'bun:test';
+import { mkdir, rm } from 'fs/promises';
 import { join } from 'path';
-import { createTestProject, startDevServer, fetchHtml, wait } from './utils';
+import type { ViteDevServer } from 'vite';
+import { createTestProject, startDevServer, fetchHtml, wait, waitForWatched } from './utils';
 
 let servers: Array<{ cleanup: () => Promise<void> }> = [];
 
@@ -135,3 +137,180 @@ test('multiple includes in same file - HMR works for both', async () => {
   expect(html2).toContain('Header Updated');
   expect(html2).toContain('Footer Updated');
 });
+
+/**
+ * Counts the full reloads sent by a dev server while `run` is pending
+ */
+async function countReloads(server: ViteDevServer, run: () => Promise<void>): Promise<number> {
+  const send = spyOn(server.ws, 'send');
+  try {
+    await run();
+    return send.mock.calls.filter(([payload]) => isFullReload(payload)).length;
+  } finally {
+    send.mockRestore();
+  }
+}
+
+/**
+ * Runs `run`, then waits until the dev server sends a full reload
+ * @returns The number of full reloads sent by then
+ * @throws Error if no full reload is sent before the deadline
+ */
+async function waitForReload(
+  server: ViteDevServer,
+  run: () => Promise<unknown>,
+  timeout: number = 5000
+): Promise<number> {
+  const send = spyOn(server.ws, 'send');
+  const countSent = () => send.mock.calls.filter(([payload]) => isFullReload(payload)).length;
+  try {
+    await run();
+    const deadline = Date.now() + timeout;
+    while (countSent() === 0) {
+      if (Date.now() > deadline) {
+        throw new Error(`No full reload within ${timeout}ms`);
+      }
+      await wait(20);
+    }
+    return countSent();
+  } finally {
+    send.mockRestore();
+  }
+}
+
+function isFullReload(payload: unknown): boolean {
+  return (payload as { type?: string } | undefined)?.type === 'full-reload';
+}
+
+/**
+ * Runs the plugin's handleHotUpdate hook for an edited file, as Vite would
+ */
+async function runHotUpdate(server: ViteDevServer, file: string): Promise<void> {
+  const plugin = server.config.plugins.find(({ name }) => name === 'vite-plugin-ssi');
+  const hook = plugin?.handleHotUpdate;
+  const handler = typeof hook === 'function' ? hook : hook?.handler;
+  await handler?.call({} as never, {
+    file,
+    timestamp: Date.now(),
+    modules: [],
+    read: () => Bun.file(file).text(),
+    server,
+  });
+}
+
+test('HMR ignores files a page no longer includes', async () => {
+  const project = await createTestProject('simple');
+  // Vite reloads on any HTML edit by itself, so the partials are not HTML
+  const headerPath = join(project.root, 'header.inc');
+  const footerPath = join(project.root, 'footer.inc');
+  await Bun.write(headerPath, '<header>Header</header>');
+  await Bun.write(footerPath, '<footer>Footer</footer>');
+  const indexPath = join(project.root, 'index.html');
+  await Bun.write(
+    indexPath,
+    '<html><body><!--#include virtual="header.inc" --><!--#include virtual="footer.inc" --></body></html>'
+  );
+  const serverInfo = await startDevServer(project.root);
+  servers.push(serverInfo);
+  servers.push(project);
+  const server = serverInfo.server as ViteDevServer;
+
+  expect(await fetchHtml(serverInfo.url, '/')).toContain('<footer>Footer</footer>');
+
+  // Stop including the footer; the page is rendered again on request
+  await Bun.write(indexPath, '<html><body><!--#include virtual="header.inc" --></body></html>');
+  expect(await fetchHtml(serverInfo.url, '/')).not.toContain('Footer');
+
+  // The hook runs as Vite would for the edits, so no reload is awaited
+  const footerReloads = await countReloads(server, () => runHotUpdate(server, footerPath));
+  expect(footerReloads).toBe(0);
+
+  await waitForReload(server, () => Bun.write(headerPath, '<header>Changed</header>'));
+});
+
+test('HMR reloads pages including a deleted file', async () => {
+  const project = await createTestProject('simple');
+  const serverInfo = await startDevServer(project.root);
+  servers.push(serverInfo);
+  servers.push(project);
+  const server = serverInfo.server as ViteDevServer;
+
+  await fetchHtml(serverInfo.url, '/');
+
+  await waitForReload(server, () => rm(join(project.root, 'footer.html')));
+  expect(await fetchHtml(serverInfo.url, '/')).toContain(
+    '<!-- SSI Error: File not found: footer.html -->'
+  );
+});
+
+test('HMR reloads pages when a missing include is created', async () => {
+  const project = await createTestProject('simple');
+  const partialsDir = join(project.root, 'partials');
+  await Bun.write(
+    join(project.root, 'index.html'),
+    '<html><body><!--#include virtual="partials/banner.inc" --></body></html>'
+  );
+  const serverInfo = await startDevServer(project.root);
+  servers.push(serverInfo);
+  servers.push(project);
+  const server = serverInfo.server as ViteDevServer;
+
+  expect(await fetchHtml(serverInfo.url, '/')).toContain(
+    '<!-- SSI Error: File not found: partials/banner.inc -->'
+  );
+
+  await waitForReload(server, () =>
+    Bun.write(join(partialsDir, 'banner.inc'), '<div>Banner</div>')
+  );
+  expect(await fetchHtml(serverInfo.url, '/')).toContain('<div>Banner</div>');
+});
+
+test('HMR watches missing includes outside the root', async () => {
+  const project = await createTestProject('simple');
+  const sharedDir = join(project.root, '../shared-partials');
+  await mkdir(sharedDir, { recursive: true });
+  await Bun.write(
+    join(project.root, 'index.html'),
+    '<html><body><!--#include virtual="../shared-partials/banner.inc" --></body></html>'
+  );
+  const serverInfo = await startDevServer(project.root, { allowedDirs: ['../shared-partials'] });
+  servers.push(serverInfo);
+  servers.push(project);
+  const server = serverInfo.server as ViteDevServer;
+
+  expect(await fetchHtml(serverInfo.url, '/')).toContain('SSI Error: File not found');
+  await waitForWatched(server, sharedDir);
+
+  await waitForReload(server, () =>
+    Bun.write(join(sharedDir, 'banner.inc'), '<div>Shared Banner</div>')
+  );
+  expect(await fetchHtml(serverInfo.url, '/')).toContain('<div>Shared Banner</div>');
+});
+
+test('HMR reloads once for a deleted include Vite reloads by itself', async () => {
+  const project = await createTestProject('simple');
+  const scriptPath = join(project.root, 'data.js');
+  await Bun.write(scriptPath, 'export const data = 1;');
+  await Bun.write(
+    join(project.root, 'index.html'),
+    '<html><body><!--#include virtual="data.js" --></body></html>'
+  );
+  const serverInfo = await startDevServer(project.root);
+  servers.push(serverInfo);
+  servers.push(project);
+  const server = serverInfo.server as ViteDevServer;
+
+  await fetchHtml(serverInfo.url, '/');
+  // Requesting the script puts it in the module graph
+  await fetchHtml(serverInfo.url, '/data.js');
+
+  // The plugin handles watcher events right away and Vite after its own hooks, so a
+  // reload from the plugin would come first
+  const reloadModule = spyOn(server, 'reloadModule');
+  try {
+    expect(await waitForReload(server, () => rm(scriptPath))).toBe(1);
+    expect(reloadModule).not.toHaveBeenCalled();
+  } finally {
+    reloadModule.mockRestore();
+  }
+});
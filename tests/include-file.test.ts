@@ -0,0 +1,42 @@
+import { expect, test, afterEach } from 'bun:test';
+import { createTestProject, buildProject, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+test('build processes include file directives', async () => {
+  const project = await createTestProject('include-file');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('File Include Nav');
+
+  // Nested file includes resolve relative to the including file's directory
+  expect(output).toContain('Sibling Links');
+});
+
+test('include file rejects absolute paths and parent segments', async () => {
+  const project = await createTestProject('include-file');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toMatch(
+    /<div class="absolute"><!-- SSI Error: File path must be relative[^>]*\/partials\/nav\.html -->/
+  );
+  expect(output).toMatch(/<div class="parent"><!-- SSI Error: File path must be relative/);
+
+  // Only the valid include is output
+  expect((output.match(/File Include Nav/g) || []).length).toBe(1);
+});
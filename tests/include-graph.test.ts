@@ -0,0 +1,59 @@
+import { expect, test } from 'bun:test';
+import { createIncludeGraph } from '../src/include-graph';
+
+test('update links files both ways and reports what changed', () => {
+  const graph = createIncludeGraph();
+
+  expect(graph.update('/site/index.html', ['/site/header.html', '/site/footer.html'])).toEqual({
+    added: ['/site/header.html', '/site/footer.html'],
+    removed: [],
+  });
+  expect(graph.update('/site/index.html', ['/site/header.html', '/site/nav.html'])).toEqual({
+    added: ['/site/nav.html'],
+    removed: ['/site/footer.html'],
+  });
+
+  expect(graph.getDependencies('/site/index.html')).toEqual(
+    new Set(['/site/header.html', '/site/nav.html'])
+  );
+  expect(graph.getImporters('/site/header.html')).toEqual(new Set(['/site/index.html']));
+  expect(graph.getImporters('/site/footer.html').size).toBe(0);
+});
+
+test('pages that stop including a file are no longer affected by it', () => {
+  const graph = createIncludeGraph();
+  graph.update('/site/index.html', ['/site/header.html']);
+  graph.update('/site/about.html', ['/site/header.html']);
+
+  graph.update('/site/about.html', []);
+
+  expect(graph.getAffected('/site/header.html')).toEqual(new Set(['/site/index.html']));
+  expect(graph.getDependencies('/site/about.html').size).toBe(0);
+});
+
+test('getAffected follows importers transitively', () => {
+  const graph = createIncludeGraph();
+  graph.update('/site/index.html', ['/site/docs/index.html']);
+  graph.update('/site/docs/index.html', ['/site/partials/nav.html']);
+  graph.update('/site/other.html', ['/site/partials/nav.html']);
+  // A cycle ends at files already visited
+  graph.update('/site/partials/nav.html', ['/site/index.html']);
+
+  expect(Array.from(graph.getAffected('/site/partials/nav.html'))).toEqual([
+    '/site/docs/index.html',
+    '/site/other.html',
+    '/site/index.html',
+  ]);
+});
+
+test('removed files drop their dependencies but stay affected by their importers', () => {
+  const graph = createIncludeGraph();
+  graph.update('/site/index.html', ['/site/header.html']);
+  graph.update('/site/about.html', ['/site/header.html']);
+
+  graph.remove('/site/about.html');
+  expect(graph.getAffected('/site/header.html')).toEqual(new Set(['/site/index.html']));
+
+  graph.remove('/site/header.html');
+  expect(graph.getAffected('/site/header.html')).toEqual(new Set(['/site/index.html']));
+});
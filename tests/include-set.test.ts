@@ -0,0 +1,49 @@
+import { expect, test, afterEach } from 'bun:test';
+import { createTestProject, buildProject, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+test('include set stores the include in a variable', async () => {
+  const project = await createTestProject('include-set');
+  projects.push(project);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  // Rendered once, output twice
+  expect(output).toContain('<div class="top"><nav class="breadcrumb">Home / Docs</nav></div>');
+  expect(output).toContain('<div class="bottom"><nav class="breadcrumb">Home / Docs</nav></div>');
+  expect((output.match(/class="breadcrumb"/g) || []).length).toBe(2);
+});
+
+test('captured includes can be tested for emptiness', async () => {
+  const project = await createTestProject('include-set');
+  projects.push(project);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('No promo');
+  expect(output).not.toContain('<aside');
+});
+
+test('parameter values longer than valueLength are rejected', async () => {
+  const project = await createTestProject('include-set');
+  projects.push(project);
+
+  await buildProject(project.root, { valueLength: 16 });
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('SSI Error: Value of "virtual" exceeds the maximum length (16)');
+  expect(output).not.toContain('class="breadcrumb"');
+});
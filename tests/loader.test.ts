@@ -0,0 +1,103 @@
+import { expect, test, afterEach } from 'bun:test';
+import { renderSsi } from '../src/index';
+import {
+  createTestProject,
+  buildProject,
+  readBuildOutput,
+  startDevServer,
+  fetchHtml,
+} from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+test('renders includes from an in-memory file map', async () => {
+  const result = await renderSsi(
+    '<!--#include virtual="/partials/header.html" --><!--#include file="footer.html" -->',
+    {
+      root: '/virtual-site',
+      filePath: 'index.html',
+      includeFileTypes: ['html'],
+      files: {
+        '/partials/header.html': '<header><!--#include virtual="nav.html" --></header>',
+        'partials/nav.html': '<nav>Menu</nav>',
+        'footer.html': '<footer>Footer</footer>',
+      },
+    }
+  );
+
+  expect(result.code).toBe('<header><nav>Menu</nav></header><footer>Footer</footer>');
+  expect(result.deps.has('/virtual-site/partials/nav.html')).toBe(true);
+});
+
+test('missing in-memory files are reported as not found', async () => {
+  const result = await renderSsi('<!--#include virtual="/missing.html" -->', {
+    root: '/virtual-site',
+    files: {},
+  });
+
+  expect(result.code).toBe('<!-- SSI Error: File not found: /missing.html -->');
+});
+
+test('resolveInclude and loadInclude hooks provide includes', async () => {
+  const importers: string[] = [];
+  const result = await renderSsi('<!--#include virtual="/cms/banner.html" -->', {
+    root: '/virtual-site',
+    resolveInclude: (includePath, importer) => {
+      importers.push(importer);
+      return includePath.startsWith('/cms/') ? `\0cms:${includePath.slice(5)}` : null;
+    },
+    loadInclude: (id) => (id === '\0cms:banner.html' ? '<div class="banner">Sale</div>' : null),
+  });
+
+  expect(result.code).toBe('<div class="banner">Sale</div>');
+  expect(importers).toEqual(['/virtual-site/index.html']);
+  expect(result.deps.has('\0cms:banner.html')).toBe(true);
+});
+
+test('hooks that return null fall back to the file system', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+
+  await buildProject(project.root, {
+    resolveInclude: () => null,
+    loadInclude: () => undefined,
+  });
+
+  const output = await readBuildOutput(project.root);
+  expect(output).toContain('Navigation Menu');
+  expect(output).toContain('Footer Content');
+});
+
+test('files option takes precedence over files on disk in build', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+
+  await buildProject(project.root, {
+    files: { '/header.html': '<header>Generated header</header>' },
+  });
+
+  const output = await readBuildOutput(project.root);
+  expect(output).toContain('<header>Generated header</header>');
+  expect(output).not.toContain('Navigation Menu');
+  expect(output).toContain('Footer Content');
+});
+
+test('files option is used by the dev server', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+
+  const devServer = await startDevServer(project.root, {
+    files: { '/footer.html': '<footer>Generated footer</footer>' },
+  });
+  projects.push(devServer);
+
+  const html = await fetchHtml(devServer.url);
+  expect(html).toContain('<footer>Generated footer</footer>');
+});
@@ -0,0 +1,143 @@
+import { expect, test, afterEach } from 'bun:test';
+import type { Plugin } from 'vite';
+import { renderSsi } from '../src/index';
+import { createTestProject, buildProject, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+const template = 'A<!--#include virtual="/missing.html" -->B<!--#echo -->C';
+
+test('errors are output as comments by default', async () => {
+  const result = await renderSsi(template, { root: '/site' });
+
+  expect(result.code).toBe(
+    'A<!-- SSI Error: File not found: /missing.html -->B<!-- SSI Error: echo requires a "var" attribute -->C'
+  );
+});
+
+test('silent and warn output nothing but keep the diagnostics', async () => {
+  for (const onError of ['silent', 'warn'] as const) {
+    const result = await renderSsi(template, { root: '/site', onError });
+
+    expect(result.code).toBe('ABC');
+    expect(result.diagnostics).toHaveLength(2);
+  }
+});
+
+test('silent mode ignores config errmsg', async () => {
+  const result = await renderSsi('<!--#config errmsg="[oops]" --><!--#echo -->', {
+    root: '/site',
+    onError: 'silent',
+  });
+
+  expect(result.code).toBe('');
+});
+
+test('per-category modes override the default', async () => {
+  const result = await renderSsi(template, {
+    root: '/site',
+    onError: { missing: 'silent', default: 'comment' },
+  });
+
+  expect(result.code).toBe('AB<!-- SSI Error: echo requires a "var" attribute -->C');
+});
+
+test('stub blocks are still used when errors are silent', async () => {
+  const result = await renderSsi(
+    '<!--#block name="fallback" -->Fallback<!--#endblock --><!--#include virtual="/missing.html" stub="fallback" -->',
+    { root: '/site', onError: 'silent' }
+  );
+
+  expect(result.code).toBe('Fallback');
+});
+
+test('failures handled by a stub block are not errors', async () => {
+  const result = await renderSsi(
+    '<!--#block name="fallback" -->Fallback<!--#endblock -->' +
+      '<!--#include virtual="/missing.html" stub="fallback" -->|' +
+      '<!--#include virtual="/other.html" stub="unknown" -->',
+    { root: '/site', onError: { missing: 'throw', default: 'comment' } }
+  ).catch((error: Error) => error);
+
+  expect(result).toBeInstanceOf(Error);
+  expect((result as Error).message).toContain('File not found: /other.html');
+  expect((result as Error).message).not.toContain('/missing.html');
+});
+
+test('stub blocks render in throw mode', async () => {
+  const result = await renderSsi(
+    '<!--#block name="fallback" -->Fallback<!--#endblock --><!--#include virtual="/missing.html" stub="fallback" -->',
+    { root: '/site', onError: 'throw' }
+  );
+
+  expect(result.code).toBe('Fallback');
+  expect(result.diagnostics).toEqual([]);
+});
+
+test('renderSsi rejects with a summary of errors in throw mode', async () => {
+  const promise = renderSsi(template, { root: '/site', onError: { missing: 'throw' } });
+
+  await expect(promise).rejects.toThrow('1 SSI error:\n\nFile not found: /missing.html');
+});
+
+test('throw mode fails the build with every broken include', async () => {
+  const project = await createTestProject('missing');
+  projects.push(project);
+
+  // A second page with its own broken includes
+  const secondPage: Plugin = {
+    name: 'second-page',
+    config: (config) => ({
+      build: {
+        rollupOptions: {
+          input: [`${config.root}/index.html`, `${config.root}/about.html`],
+        },
+      },
+    }),
+  };
+  await Bun.write(
+    `${project.root}/about.html`,
+    '<html><body><!--#include virtual="/nav.html" --><!--#include virtual="/ad.html" --></body></html>'
+  );
+
+  let error: unknown;
+  try {
+    await buildProject(project.root, { onError: 'throw' }, [secondPage]);
+  } catch (e) {
+    error = e;
+  }
+
+  expect(error).toBeInstanceOf(Error);
+  const message = (error as Error).message;
+  expect(message).toContain('3 SSI errors');
+  expect(message).toContain('File not found: nonexistent.html\n  at index.html:5:5');
+  expect(message).toContain('File not found: /nav.html\n  at about.html:1:13');
+  expect(message).toContain('File not found: /ad.html');
+});
+
+test('silent mode builds without warnings or error comments', async () => {
+  const project = await createTestProject('missing');
+  projects.push(project);
+
+  const warnings: string[] = [];
+  const collectWarnings: Plugin = {
+    name: 'collect-warnings',
+    config: () => ({
+      build: { rollupOptions: { onwarn: (warning) => warnings.push(warning.message) } },
+    }),
+  };
+
+  await buildProject(project.root, { onError: 'silent' }, [collectWarnings]);
+
+  const output = await readBuildOutput(project.root);
+  expect(output).not.toContain('SSI Error');
+  expect(output).toContain('After missing include');
+  expect(warnings).toEqual([]);
+});
@@ -0,0 +1,37 @@
+import { expect, test, afterAll } from 'bun:test';
+import { rm } from 'fs/promises';
+import { join } from 'path';
+
+const repoRoot = join(import.meta.dir, '..');
+const distDir = join(repoRoot, 'dist');
+
+afterAll(async () => {
+  await rm(distDir, { recursive: true, force: true });
+});
+
+/**
+ * Runs a package.json script and returns the bundle it wrote
+ */
+async function runBuildScript(script: string, outfile: string): Promise<string> {
+  const result = Bun.spawnSync(['bun', 'run', script], { cwd: repoRoot, stderr: 'pipe' });
+  expect(result.stderr.toString()).not.toContain('error:');
+  expect(result.exitCode).toBe(0);
+  return Bun.file(join(distDir, outfile)).text();
+}
+
+test('the ESM bundle imports Vite rather than bundling it', async () => {
+  const bundle = await runBuildScript('build:esm', 'index.mjs');
+
+  // Fragment modules are bundled with the consumer's Vite
+  expect(bundle).toMatch(/import \{[^}]*\bloadConfigFromFile\b[^}]*\} from "vite"/);
+  expect(bundle).not.toContain('lightningcss');
+  // The optional Markdown renderer is loaded from the consumer's dependencies
+  expect(bundle).toContain('import("marked")');
+});
+
+test('the CommonJS bundle requires Vite rather than bundling it', async () => {
+  const bundle = await runBuildScript('build:cjs', 'index.cjs');
+
+  expect(bundle).toContain('require("vite")');
+  expect(bundle).not.toContain('lightningcss');
+});
@@ -0,0 +1,162 @@
+import { expect, test, afterEach } from 'bun:test';
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join, relative } from 'path';
+import { build, createServer, type ViteDevServer } from 'vite';
+import { renderSsi } from '../src/index';
+import { createViteConfig, readBuildOutput, waitForWatched } from './utils';
+
+let cleanups: Array<() => Promise<void>> = [];
+
+afterEach(async () => {
+  for (const cleanup of cleanups) {
+    await cleanup();
+  }
+  cleanups = [];
+});
+
+/**
+ * Creates an empty directory. Packages are written to fresh directories because
+ * Bun caches the directory listings of the test tree when resolving modules.
+ */
+async function createTempDir(): Promise<string> {
+  const dir = await realpath(await mkdtemp(join(tmpdir(), 'vite-plugin-ssi-')));
+  cleanups.push(() => rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/**
+ * Writes a fake `@acme/ui` package that only exports its partials
+ */
+async function writePackage(dir: string, header: string): Promise<void> {
+  await mkdir(join(dir, 'dist', 'partials'), { recursive: true });
+  await writeFile(
+    join(dir, 'package.json'),
+    JSON.stringify({ name: '@acme/ui', exports: { './partials/*': './dist/partials/*' } })
+  );
+  await writeFile(join(dir, 'dist', 'partials', 'header.html'), header);
+}
+
+/**
+ * Links a package into `node_modules`, like a workspace package manager
+ */
+async function linkPackage(root: string, packageDir: string): Promise<void> {
+  const link = join(root, 'node_modules', '@acme', 'ui');
+  await mkdir(dirname(link), { recursive: true });
+  await symlink(packageDir, link);
+}
+
+const template =
+  '<html><body><!--#include virtual="pkg:@acme/ui/partials/header.html" --></body></html>';
+
+test('pkg: includes are resolved through package exports', async () => {
+  const root = await createTempDir();
+  await writePackage(join(root, 'node_modules', '@acme', 'ui'), '<header>ACME</header>');
+
+  const result = await renderSsi('<!--#include virtual="pkg:@acme/ui/partials/header.html" -->', {
+    root,
+  });
+
+  expect(result.code).toBe('<header>ACME</header>');
+  expect(result.deps.has(join(root, 'node_modules/@acme/ui/dist/partials/header.html'))).toBe(true);
+});
+
+test('bare package specifiers are resolved when no local file matches', async () => {
+  const root = await createTempDir();
+  await writePackage(join(root, 'node_modules', '@acme', 'ui'), '<header>ACME</header>');
+
+  const result = await renderSsi('<!--#include virtual="@acme/ui/partials/header.html" -->', {
+    root,
+  });
+
+  expect(result.code).toBe('<header>ACME</header>');
+});
+
+test('paths that the package does not export are not found', async () => {
+  const root = await createTempDir();
+  await writePackage(join(root, 'node_modules', '@acme', 'ui'), '<header>ACME</header>');
+
+  const result = await renderSsi(
+    '<!--#include virtual="pkg:@acme/ui/dist/partials/header.html" -->',
+    { root }
+  );
+
+  expect(result.code).toBe(
+    '<!-- SSI Error: File not found: pkg:@acme/ui/dist/partials/header.html -->'
+  );
+});
+
+test('packages are resolved from the including file', async () => {
+  const root = await createTempDir();
+  await writePackage(join(root, 'node_modules', '@acme', 'ui'), '<header>Root</header>');
+  await writePackage(join(root, 'docs', 'node_modules', '@acme', 'ui'), '<header>Docs</header>');
+
+  const result = await renderSsi('<!--#include virtual="pkg:@acme/ui/partials/header.html" -->', {
+    root,
+    filePath: 'docs/index.html',
+  });
+
+  expect(result.code).toBe('<header>Docs</header>');
+});
+
+test('linked packages outside the root are tracked by their real path', async () => {
+  const root = await createTempDir();
+  const workspacePackage = await createTempDir();
+  await writePackage(workspacePackage, '<header>Linked</header>');
+  await linkPackage(root, workspacePackage);
+
+  const result = await renderSsi('<!--#include virtual="pkg:@acme/ui/partials/header.html" -->', {
+    root,
+  });
+
+  expect(result.code).toBe('<header>Linked</header>');
+  expect(result.diagnostics).toEqual([]);
+  expect(result.deps.has(join(workspacePackage, 'dist/partials/header.html'))).toBe(true);
+});
+
+test('pkg: paths that are not bare package specifiers cannot escape the root', async () => {
+  const root = await createTempDir();
+  const outside = await createTempDir();
+  await writeFile(join(outside, 'secret.html'), 'SECRET');
+  const relativePath = join(relative(root, outside), 'secret.html');
+
+  const result = await renderSsi(
+    `<!--#include virtual="pkg:${join(outside, 'secret.html')}" -->|` +
+      `<!--#include virtual="pkg:${relativePath}" -->`,
+    { root }
+  );
+
+  expect(result.code).not.toContain('SECRET');
+  expect(result.diagnostics.map((diagnostic) => diagnostic.category)).toEqual([
+    'missing',
+    'missing',
+  ]);
+});
+
+test('build includes package partials', async () => {
+  const root = await createTempDir();
+  await writePackage(join(root, 'node_modules', '@acme', 'ui'), '<header>ACME</header>');
+  await writeFile(join(root, 'index.html'), template);
+
+  await build(createViteConfig(root));
+
+  const output = await readBuildOutput(root);
+  expect(output).toContain('<header>ACME</header>');
+});
+
+test('dev server watches linked package partials outside the root', async () => {
+  const root = await createTempDir();
+  const workspacePackage = await createTempDir();
+  await writePackage(workspacePackage, '<header>Linked</header>');
+  await linkPackage(root, workspacePackage);
+  await writeFile(join(root, 'index.html'), template);
+
+  const server: ViteDevServer = await createServer(createViteConfig(root));
+  cleanups.unshift(() => server.close());
+  await server.listen();
+
+  const response = await fetch(server.resolvedUrls!.local[0]);
+  expect(await response.text()).toContain('<header>Linked</header>');
+
+  await waitForWatched(server, join(workspacePackage, 'dist', 'partials', 'header.html'));
+});
@@ -0,0 +1,122 @@
+import { expect, test } from 'bun:test';
+import { parseSsi, getAttribute, type SsiDirectiveNode } from '../src/parser';
+
+test('parses text and directives with source offsets', () => {
+  const source = 'Hello <!--#echo var="name" --> world';
+  const { nodes, errors } = parseSsi(source);
+
+  expect(errors).toEqual([]);
+  expect(nodes.map((node) => node.type)).toEqual(['text', 'directive', 'text']);
+
+  const directive = nodes[1] as SsiDirectiveNode;
+  expect(directive.name).toBe('echo');
+  expect(directive.start).toBe(6);
+  expect(directive.end).toBe(30);
+  expect(source.slice(directive.start, directive.end)).toBe(directive.raw);
+
+  const [attribute] = directive.attributes;
+  expect(attribute).toEqual({ name: 'var', value: 'name', start: 16, end: 26 });
+});
+
+test('supports every quoting style, unquoted values and extra whitespace', () => {
+  const { nodes, errors } = parseSsi(
+    '<!--#  INCLUDE   Virtual = "/a.html"\n  file=\'b.html\' stub=`c` set=d  -->'
+  );
+
+  expect(errors).toEqual([]);
+  const directive = nodes[0] as SsiDirectiveNode;
+  expect(directive.name).toBe('include');
+  expect(directive.attributes.map(({ name, value }) => [name, value])).toEqual([
+    ['virtual', '/a.html'],
+    ['file', 'b.html'],
+    ['stub', 'c'],
+    ['set', 'd'],
+  ]);
+});
+
+test('escaped quotes and other backslashes in values', () => {
+  const { nodes } = parseSsi('<!--#set var="a" value="say \\"hi\\" for \\$5" -->');
+  expect(getAttribute(nodes[0] as SsiDirectiveNode, 'value')).toBe('say "hi" for \\$5');
+});
+
+test('builds conditional and block trees', () => {
+  const source = [
+    '<!--#if expr="$a" -->A',
+    '<!--#elif expr="$b" -->B',
+    '<!--#else -->C<!--#block name="x" -->X<!--#endblock -->',
+    '<!--#endif -->',
+  ].join('');
+  const { nodes, errors } = parseSsi(source);
+
+  expect(errors).toEqual([]);
+  expect(nodes).toHaveLength(1);
+
+  const conditional = nodes[0];
+  if (conditional.type !== 'if') {
+    throw new Error('Expected a conditional node');
+  }
+  expect(conditional.start).toBe(0);
+  expect(conditional.end).toBe(source.length);
+  expect(conditional.branches.map((branch) => branch.directive.name)).toEqual([
+    'if',
+    'elif',
+    'else',
+  ]);
+
+  const [text, block] = conditional.branches[2].children;
+  expect(text).toMatchObject({ type: 'text', value: 'C' });
+  expect(block).toMatchObject({ type: 'block', name: 'x' });
+});
+
+test('malformed directives produce parse errors', () => {
+  const cases: Array<[string, string]> = [
+    ['<!--# -->', 'Missing directive name'],
+    ['<!--#include virtual -->', 'Attribute "virtual" has no value'],
+    ['<!--#include virtual="a.html -->', 'Unterminated value for attribute "virtual"'],
+    ['<!--#include virtual="a"file="b" -->', 'Expected whitespace between attributes'],
+    ['<!--#include virtual="a" !bad -->', 'Unexpected character "!"'],
+    ['<!--#include virtual="a"', 'Unterminated "include" directive'],
+  ];
+
+  for (const [source, message] of cases) {
+    const { nodes, errors } = parseSsi(source);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain(message);
+    expect(errors[0].start).toBe(0);
+    expect(nodes[0].type).toBe('error');
+  }
+});
+
+test('text after an unterminated directive is kept', () => {
+  const { nodes } = parseSsi('<!--#include virtual="a" <p>after</p>');
+  expect(nodes[0]).toMatchObject({ type: 'error', start: 0, end: 5 });
+  expect(nodes[1]).toMatchObject({ type: 'text', value: 'include virtual="a" <p>after</p>' });
+});
+
+test('unbalanced structures produce parse errors', () => {
+  expect(parseSsi('<!--#endif -->').errors[0].message).toBe('endif without matching if');
+  expect(parseSsi('<!--#else -->').errors[0].message).toBe('else without matching if');
+  expect(
+    parseSsi('<!--#if expr="a" --><!--#else --><!--#elif expr="b" --><!--#endif -->').errors[0]
+      .message
+  ).toBe('elif without matching if');
+  expect(parseSsi('<!--#endblock -->').errors[0].message).toBe('endblock without matching block');
+  expect(parseSsi('<!--#block -->x<!--#endblock -->').errors[0].message).toBe(
+    'block requires a "name" attribute'
+  );
+
+  const missingEndif = parseSsi('<!--#if expr="a" -->open');
+  expect(missingEndif.errors[0]).toEqual({ message: 'Missing endif', start: 0, end: 20 });
+
+  const missingEndblock = parseSsi('<!--#block name="x" -->open');
+  expect(missingEndblock.errors[0].message).toBe('Missing endblock');
+  expect(missingEndblock.nodes.map((node) => node.type)).toEqual(['error']);
+});
+
+test('conditionals left open inside a block end with it', () => {
+  const { nodes, errors } = parseSsi(
+    '<!--#block name="x" --><!--#if expr="a" -->A<!--#endblock -->after'
+  );
+  expect(errors.map((error) => error.message)).toEqual(['Missing endif']);
+  expect(nodes.map((node) => node.type)).toEqual(['block', 'text']);
+});
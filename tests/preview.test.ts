@@ -1,4 +1,6 @@
 import { expect, test, afterEach } from 'bun:test';
+import { connect } from 'net';
+import { join } from 'path';
 import {
   createTestProject,
   buildProject,
@@ -108,3 +110,36 @@ test('preview with apply: preview only', async () => {
   expect(html).toContain('Navigation Menu');
   expect(html).not.toContain('<!--#include');
 });
+
+/**
+ * Sends a GET request with the path exactly as given, since fetch would normalize
+ * `..` segments away, and resolves with the raw response
+ */
+function rawGet(url: string, requestPath: string): Promise<string> {
+  const { hostname, port } = new URL(url);
+  return new Promise((resolve, reject) => {
+    const socket = connect(Number(port), hostname, () => {
+      socket.write(`GET ${requestPath} HTTP/1.1\r\nHost: ${hostname}\r\nConnection: close\r\n\r\n`);
+    });
+    let response = '';
+    socket.on('data', (chunk) => (response += chunk));
+    socket.on('end', () => resolve(response));
+    socket.on('error', reject);
+  });
+}
+
+test('preview does not serve pages outside the build output', async () => {
+  const project = await createTestProject('simple');
+  servers.push(project);
+  const secretPath = join(project.root, 'secret.html');
+
+  await buildProject(project.root);
+  await Bun.write(secretPath, '<p>SECRET</p>');
+  const serverInfo = await startPreviewServer(project.root);
+  servers.push(serverInfo);
+
+  for (const requestPath of ['/../secret.html', '/%2e%2e/secret.html', '/..%2fsecret.html']) {
+    expect(await rawGet(serverInfo.url, requestPath)).not.toContain('SECRET');
+  }
+  expect(await fetchHtml(serverInfo.url, '/')).toContain('Navigation Menu');
+});
@@ -0,0 +1,129 @@
+import { expect, test, afterEach } from 'bun:test';
+import { join } from 'path';
+import { readdir } from 'fs/promises';
+import { build, mergeConfig } from 'vite';
+import { renderSsi } from '../src/index';
+import { createTestProject, createViteConfig, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+const files = {
+  '/components/header.html': '<img src="logo.svg"><link rel="stylesheet" href="./nav.css">',
+  '/components/nested/icon.html': "<img src='icon.svg'>",
+  '/components/card.html': '<div><!--#include virtual="nested/icon.html" --></div>',
+  '/components/notes.txt': 'See <a href="notes.html">notes</a>',
+};
+
+test('relative URLs in included HTML are kept by default', async () => {
+  const result = await renderSsi('<!--#include virtual="/components/header.html" -->', {
+    root: '/site',
+    filePath: 'docs/index.html',
+    files,
+  });
+
+  expect(result.code).toBe('<img src="logo.svg"><link rel="stylesheet" href="./nav.css">');
+});
+
+test('rebaseUrls points relative URLs at the included file', async () => {
+  const result = await renderSsi('<!--#include virtual="/components/header.html" -->', {
+    root: '/site',
+    filePath: 'docs/index.html',
+    files,
+    rebaseUrls: true,
+  });
+
+  expect(result.code).toBe(
+    '<img src="../components/logo.svg"><link rel="stylesheet" href="../components/nav.css">'
+  );
+});
+
+test('rebaseUrls rewrites srcset candidates and CSS url() references', async () => {
+  const result = await renderSsi('<!--#include virtual="/components/hero.html" -->', {
+    root: '/site',
+    filePath: 'docs/index.html',
+    files: {
+      '/components/hero.html':
+        '<img srcset="hero.png 1x, img/hero@2x.png 2x" src=hero.png>' +
+        '<div style="background: url(\'bg.png\')"></div>' +
+        '<style>.hero { background: url(img/hero.png?v=1#top); }</style>',
+    },
+    rebaseUrls: true,
+  });
+
+  expect(result.code).toBe(
+    '<img srcset="../components/hero.png 1x, ../components/img/hero@2x.png 2x" src=../components/hero.png>' +
+      '<div style="background: url(\'../components/bg.png\')"></div>' +
+      '<style>.hero { background: url(../components/img/hero.png?v=1#top); }</style>'
+  );
+});
+
+test('rebaseUrls keeps absolute, root-relative and fragment URLs', async () => {
+  const html =
+    '<a href="https://example.com/">a</a><a href="//cdn.example.com/x.js">b</a>' +
+    '<a href="/about.html">c</a><a href="#top">d</a><a href="mailto:me@example.com">e</a>' +
+    '<img src="data:image/png;base64,AAAA"><a href="?page=2">f</a>';
+  const result = await renderSsi('<!--#include virtual="/components/links.html" -->', {
+    root: '/site',
+    filePath: 'docs/index.html',
+    files: { '/components/links.html': html },
+    rebaseUrls: true,
+  });
+
+  expect(result.code).toBe(html);
+});
+
+test('rebaseUrls composes through nested includes', async () => {
+  const result = await renderSsi('<!--#include virtual="/components/card.html" -->', {
+    root: '/site',
+    filePath: 'docs/guide/index.html',
+    files,
+    includeFileTypes: ['html'],
+    rebaseUrls: true,
+  });
+
+  expect(result.code).toBe("<div><img src='../../components/nested/icon.svg'></div>");
+});
+
+test('rebaseUrls leaves includes that are not HTML untouched', async () => {
+  const result = await renderSsi('<!--#include virtual="/components/notes.txt" -->', {
+    root: '/site',
+    filePath: 'docs/index.html',
+    files,
+    rebaseUrls: true,
+  });
+
+  expect(result.code).toBe('See <a href="notes.html">notes</a>');
+});
+
+test('build resolves rebased assets of partials included from a subdirectory', async () => {
+  const project = await createTestProject('rebase');
+  projects.push(project);
+
+  await build(
+    mergeConfig(createViteConfig(project.root, { rebaseUrls: true }), {
+      build: {
+        assetsInlineLimit: 0,
+        rollupOptions: { input: join(project.root, 'docs/index.html') },
+      },
+    })
+  );
+
+  const output = await readBuildOutput(project.root, 'docs/index.html');
+  expect(output).toMatch(/<img src="\/assets\/logo-[\w-]+\.svg"/);
+  expect(output).toMatch(/<link rel="stylesheet"[^>]* href="\/assets\/[\w-]+\.css"/);
+  expect(output).not.toContain('SSI Error');
+
+  const assets = await readdir(join(project.root, 'dist/assets'));
+  const css = assets.find((asset) => asset.endsWith('.css'));
+  expect(css).toBeDefined();
+  expect(await Bun.file(join(project.root, 'dist/assets', css as string)).text()).toContain(
+    '.nav-rebased'
+  );
+});
@@ -0,0 +1,178 @@
+import { expect, test, afterEach } from 'bun:test';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { renderSsi } from '../src/index';
+import {
+  createTestProject,
+  buildProject,
+  readBuildOutput,
+  startDevServer,
+  startPreviewServer,
+} from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+/**
+ * Starts a stub backend on a random port
+ */
+async function startBackend(): Promise<{ url: string; cleanup: () => Promise<void> }> {
+  const server: Server = createServer((req, res) => {
+    switch (req.url) {
+      case '/api/user-menu':
+        res.end(`<nav>Menu for ${req.headers.cookie ?? 'nobody'}</nav>`);
+        return;
+      case '/menu':
+        res.end(`<nav>Rewritten, token ${req.headers['x-token']}</nav>`);
+        return;
+      case '/api/slow':
+        setTimeout(() => res.end('<nav>Slow</nav>'), 300);
+        return;
+      default:
+        res.statusCode = 500;
+        res.end('Internal Server Error');
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    cleanup: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+test('remote includes are fetched with the request headers', async () => {
+  const backend = await startBackend();
+  projects.push(backend);
+
+  const result = await renderSsi('<!--#include virtual="/api/user-menu" -->', {
+    root: '/site',
+    request: { url: '/', headers: { cookie: 'user=ada', host: 'localhost:5173' } },
+    remote: { routes: { '/api/': backend.url }, timeout: 1000 },
+  });
+
+  expect(result.code).toBe('<nav>Menu for user=ada</nav>');
+  expect(result.deps.size).toBe(0);
+});
+
+test('remote routes support regular expressions, rewrites and headers', async () => {
+  const backend = await startBackend();
+  projects.push(backend);
+
+  const result = await renderSsi('<!--#include virtual="/fragments/menu" -->', {
+    root: '/site',
+    remote: {
+      routes: {
+        '^/fragments/': {
+          target: backend.url,
+          rewrite: (path) => path.replace(/^\/fragments/, ''),
+          headers: { 'X-Token': 'secret' },
+        },
+      },
+      timeout: 1000,
+    },
+  });
+
+  expect(result.code).toBe('<nav>Rewritten, token secret</nav>');
+});
+
+test('failed remote includes fall back to stub blocks', async () => {
+  const backend = await startBackend();
+  projects.push(backend);
+
+  const result = await renderSsi(
+    '<!--#block name="guest" -->Guest<!--#endblock -->' +
+      '<!--#include virtual="/api/error" stub="guest" -->|' +
+      '<!--#include virtual="/api/slow" -->|' +
+      '<!--#include virtual="/api/error" -->',
+    { root: '/site', remote: { routes: { '/api/': backend.url }, timeout: 100 } }
+  );
+
+  expect(result.code).toBe(
+    'Guest|<!-- SSI Error: Remote include failed for /api/slow: timed out after 100ms -->|' +
+      '<!-- SSI Error: Remote include failed for /api/error: 500 Internal Server Error -->'
+  );
+  // The failure handled by the stub is not reported
+  expect(result.diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+    'Remote include failed for /api/slow: timed out after 100ms',
+    'Remote include failed for /api/error: 500 Internal Server Error',
+  ]);
+  expect(result.diagnostics.every((diagnostic) => diagnostic.category === 'remote')).toBe(true);
+});
+
+test('route timeouts override the default timeout', async () => {
+  const backend = await startBackend();
+  projects.push(backend);
+
+  const result = await renderSsi('<!--#include virtual="/api/slow" -->', {
+    root: '/site',
+    remote: { routes: { '/api/': { target: backend.url, timeout: 2000 } }, timeout: 100 },
+  });
+
+  expect(result.code).toBe('<nav>Slow</nav>');
+});
+
+test('kept remote includes are left for the server', async () => {
+  const directive = '<!--#include virtual="/api/user-menu" stub="guest" -->';
+  const result = await renderSsi(directive, {
+    root: '/site',
+    remote: { routes: { '/api/': 'http://127.0.0.1:1' }, timeout: 100, keep: true },
+  });
+
+  expect(result.code).toBe(directive);
+  expect(result.diagnostics).toHaveLength(0);
+});
+
+test('wait accepts only yes and no', async () => {
+  const result = await renderSsi(
+    '<!--#include virtual="/a.html" wait="maybe" -->|<!--#include virtual="/a.html" wait="yes" -->',
+    { root: '/site', files: { '/a.html': 'A' } }
+  );
+
+  expect(result.code).toBe('<!-- SSI Error: Invalid wait value: maybe -->|A');
+});
+
+test('dev server fetches remote includes through server.proxy rules', async () => {
+  const backend = await startBackend();
+  projects.push(backend);
+  const project = await createTestProject('remote');
+  projects.push(project);
+
+  const devServer = await startDevServer(project.root, {}, [
+    { name: 'proxy', config: () => ({ server: { proxy: { '/api': backend.url } } }) },
+  ]);
+  projects.push(devServer);
+
+  const response = await fetch(devServer.url, { headers: { cookie: 'user=dev' } });
+  const html = await response.text();
+  expect(html).toContain('<nav>Menu for user=dev</nav>');
+  expect(html).toContain('<nav>Guest Menu</nav>');
+});
+
+test('build keeps remote includes and preview fetches them', async () => {
+  const backend = await startBackend();
+  projects.push(backend);
+  const project = await createTestProject('remote');
+  projects.push(project);
+
+  const options = { remoteIncludes: { '/api/': backend.url } };
+  await buildProject(project.root, options);
+  const output = await readBuildOutput(project.root);
+  expect(output).toContain('<!--#include virtual="/api/user-menu" stub="guest" wait="yes" -->');
+
+  const previewServer = await startPreviewServer(project.root, options);
+  projects.push(previewServer);
+
+  const response = await fetch(previewServer.url, { headers: { cookie: 'user=preview' } });
+  expect(await response.text()).toContain('<nav>Menu for user=preview</nav>');
+});
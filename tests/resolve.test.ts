@@ -0,0 +1,142 @@
+import { expect, test, afterEach } from 'bun:test';
+import { join } from 'path';
+import { build, mergeConfig } from 'vite';
+import { renderSsi } from '../src/index';
+import {
+  createTestProject,
+  createViteConfig,
+  readBuildOutput,
+  startDevServer,
+  fetchHtml,
+} from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+const files = {
+  '/src/partials/header.html': '<header>Header</header>',
+  '/shared/card.html': '<div>Shared Card</div>',
+  '/pages/card.html': '<div>Local Card</div>',
+  '/public/banner.html': '<div>Public Banner</div>',
+  '/public/robots.txt': 'public robots',
+  '/robots.txt': 'root robots',
+};
+
+test('aliases are applied to virtual paths', async () => {
+  const result = await renderSsi('<!--#include virtual="@partials/header.html" -->', {
+    root: '/site',
+    files,
+    alias: [{ find: '@partials', replacement: '/site/src/partials' }],
+  });
+
+  expect(result.code).toBe('<header>Header</header>');
+  expect(result.deps.has('/site/src/partials/header.html')).toBe(true);
+});
+
+test('regular expression aliases and root-relative replacements are supported', async () => {
+  const result = await renderSsi('<!--#include virtual="~header.html" -->', {
+    root: '/site',
+    files,
+    alias: [{ find: /^~/, replacement: '/src/partials/' }],
+  });
+
+  expect(result.code).toBe('<header>Header</header>');
+});
+
+test('bare names are searched in includePaths in order', async () => {
+  const result = await renderSsi('<!--#include virtual="card.html" -->', {
+    root: '/site',
+    filePath: 'index.html',
+    files,
+    includePaths: ['src/partials', 'shared', 'pages'],
+  });
+
+  expect(result.code).toBe('<div>Shared Card</div>');
+});
+
+test('files next to the including file take precedence over includePaths', async () => {
+  const result = await renderSsi('<!--#include virtual="card.html" -->', {
+    root: '/site',
+    filePath: 'pages/index.html',
+    files,
+    includePaths: ['shared'],
+  });
+
+  expect(result.code).toBe('<div>Local Card</div>');
+});
+
+test('explicitly relative paths do not use includePaths', async () => {
+  const result = await renderSsi('<!--#include virtual="./card.html" -->', {
+    root: '/site',
+    files,
+    includePaths: ['shared'],
+  });
+
+  expect(result.code).toBe('<!-- SSI Error: File not found: ./card.html -->');
+});
+
+test('root-relative paths fall back to publicDir', async () => {
+  const result = await renderSsi(
+    '<!--#include virtual="/banner.html" -->|<!--#include virtual="/robots.txt" -->',
+    { root: '/site', files, publicDir: 'public' }
+  );
+
+  expect(result.code).toBe('<div>Public Banner</div>|root robots');
+});
+
+test('missing paths tried before the resolved one are dependencies', async () => {
+  const result = await renderSsi(
+    '<!--#include virtual="card.html" -->|<!--#include virtual="/banner.html" -->',
+    { root: '/site', files, includePaths: ['src/partials', 'shared'], publicDir: 'public' }
+  );
+
+  expect(result.code).toBe('<div>Shared Card</div>|<div>Public Banner</div>');
+  expect(Array.from(result.deps).sort()).toEqual([
+    '/site/banner.html',
+    '/site/card.html',
+    '/site/public/banner.html',
+    '/site/shared/card.html',
+    '/site/src/partials/card.html',
+  ]);
+});
+
+test('build resolves through resolve.alias, includePaths and publicDir', async () => {
+  const project = await createTestProject('resolve');
+  projects.push(project);
+
+  await build(
+    mergeConfig(createViteConfig(project.root, { includePaths: ['shared'] }), {
+      resolve: { alias: { '@partials': join(project.root, 'src/partials') } },
+    })
+  );
+
+  const output = await readBuildOutput(project.root);
+  expect(output).toContain('Aliased Header');
+  expect(output).toContain('Shared Card');
+  expect(output).toContain('Public Banner');
+  expect(output).not.toContain('SSI Error');
+});
+
+test('dev server resolves through resolve.alias and includePaths', async () => {
+  const project = await createTestProject('resolve');
+  projects.push(project);
+
+  const devServer = await startDevServer(project.root, { includePaths: ['shared'] }, [
+    {
+      name: 'alias',
+      config: () => ({ resolve: { alias: { '@partials': join(project.root, 'src/partials') } } }),
+    },
+  ]);
+  projects.push(devServer);
+
+  const html = await fetchHtml(devServer.url);
+  expect(html).toContain('Aliased Header');
+  expect(html).toContain('Shared Card');
+  expect(html).toContain('Public Banner');
+});
@@ -0,0 +1,107 @@
+import { expect, test, afterEach } from 'bun:test';
+import { mkdir, symlink, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { build, mergeConfig } from 'vite';
+import { renderSsi } from '../src/index';
+import { createTestProject, buildProject, createViteConfig, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+const fixturesDir = resolve(import.meta.dir, 'fixtures');
+const simpleRoot = join(fixturesDir, 'simple');
+
+test('includes outside the root are rejected', async () => {
+  const result = await renderSsi('<!--#include virtual="../nested/header.html" -->', {
+    root: simpleRoot,
+  });
+
+  expect(result.code).toBe(
+    '<!-- SSI Error: Include is outside the allowed directories: ../nested/header.html -->'
+  );
+  expect(result.diagnostics[0].category).toBe('forbidden');
+  expect(result.deps.size).toBe(0);
+});
+
+test('allowedDirs widen the sandbox', async () => {
+  const result = await renderSsi('<!--#include virtual="../nested/header.html" -->', {
+    root: simpleRoot,
+    allowedDirs: ['../nested'],
+  });
+
+  expect(result.code).toContain('<header>');
+  expect(result.diagnostics).toEqual([]);
+});
+
+test('flastmod and fsize are confined too', async () => {
+  const result = await renderSsi('<!--#fsize virtual="/../nested/header.html" -->', {
+    root: simpleRoot,
+  });
+
+  expect(result.diagnostics.map((d) => d.category)).toEqual(['forbidden']);
+});
+
+test('denied files are rejected', async () => {
+  const result = await renderSsi('<!--#include virtual="/.env" -->', {
+    root: '/site',
+    files: { '/.env': 'SECRET=1' },
+    deny: (filePath) => filePath.endsWith('/.env'),
+  });
+
+  expect(result.code).toBe('<!-- SSI Error: Include is denied: /.env -->');
+});
+
+test('symlinks cannot point out of the root', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+  await symlink(join(fixturesDir, 'nested', 'header.html'), join(project.root, 'link.html'));
+
+  const result = await renderSsi('<!--#include virtual="/link.html" -->', {
+    root: project.root,
+  });
+
+  expect(result.diagnostics.map((d) => d.category)).toEqual(['forbidden']);
+});
+
+test('build honours server.fs.deny', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+  await writeFile(join(project.root, '.env'), 'SECRET=1');
+  await writeFile(
+    join(project.root, 'index.html'),
+    '<html><body><!--#include virtual="/.env" --></body></html>'
+  );
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+  expect(output).toContain('Include is denied: /.env');
+  expect(output).not.toContain('SECRET');
+});
+
+test('build honours server.fs.allow', async () => {
+  const project = await createTestProject('simple');
+  projects.push(project);
+  await mkdir(join(project.root, '../shared'));
+  await writeFile(join(project.root, '../shared/header.html'), '<header>Shared</header>');
+  await writeFile(
+    join(project.root, 'index.html'),
+    '<html><body><!--#include virtual="../shared/header.html" --></body></html>'
+  );
+
+  await build(
+    mergeConfig(createViteConfig(project.root), {
+      server: { fs: { allow: ['../shared'] } },
+    })
+  );
+
+  const output = await readBuildOutput(project.root);
+  expect(output).toContain('<header>');
+  expect(output).not.toContain('SSI Error');
+});
@@ -266,3 +266,15 @@ test('mixed relative and absolute paths', async () => {
   // Should not contain errors
   expect(output).not.toContain('SSI Error');
 });
+
+test('missing file error does not expose the absolute path', async () => {
+  const project = await createTestProject('missing');
+  projects.push(project);
+
+  await buildProject(project.root);
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('<!-- SSI Error: File not found: nonexistent.html -->');
+  expect(output).not.toContain(project.root);
+});
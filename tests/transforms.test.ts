@@ -0,0 +1,144 @@
+import { expect, test, afterEach } from 'bun:test';
+import { renderSsi, markdownTransform, jsonTransform } from '../src/index';
+import { createTestProject, buildProject, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+const files = {
+  '/content/changelog.md': '# Changelog\n\n- Version <!--#echo var="version" -->',
+  '/content/guide.md': '[Setup](setup.md) ![Diagram](images/flow.svg) [Home](/index.html)',
+  '/data/site.json': '{"name":"Docs <beta>","tags":["a&b"]}',
+  '/data/settings.jsonc':
+    '{\n  // Shown in the header\n  "url": "https://example.com/*", /* not a comment end */\n  "tags": ["a",],\n}',
+  '/data/broken.json': '{ not json',
+};
+
+const markdown = markdownTransform();
+
+test('included Markdown is inserted raw without a transform', async () => {
+  const result = await renderSsi('<!--#include virtual="/content/changelog.md" -->', {
+    root: '/site',
+    files,
+  });
+
+  expect(result.code).toBe('# Changelog\n\n- Version <!--#echo var="version" -->');
+});
+
+test('markdownTransform renders included Markdown after SSI processing', async () => {
+  const result = await renderSsi('<!--#include virtual="/content/changelog.md" -->', {
+    root: '/site',
+    files,
+    variables: { version: '1.2.0' },
+    includeFileTypes: ['markdown'],
+    includeTransforms: { markdown },
+  });
+
+  expect(result.code).toBe('<h1>Changelog</h1>\n<ul>\n<li>Version 1.2.0</li>\n</ul>\n');
+});
+
+test('jsonTransform pretty-prints and escapes JSON for HTML', async () => {
+  const result = await renderSsi('<pre><!--#include virtual="/data/site.json" --></pre>', {
+    root: '/site',
+    files,
+    includeTransforms: { json: jsonTransform() },
+  });
+
+  expect(result.code).toBe(
+    '<pre>{\n  &quot;name&quot;: &quot;Docs &lt;beta&gt;&quot;,\n  &quot;tags&quot;: [\n    &quot;a&amp;b&quot;\n  ]\n}</pre>'
+  );
+});
+
+test('Markdown output is rebased with rebaseUrls', async () => {
+  const result = await renderSsi('<!--#include virtual="/content/guide.md" -->', {
+    root: '/site',
+    filePath: 'docs/index.html',
+    files,
+    rebaseUrls: true,
+    includeTransforms: { markdown },
+  });
+
+  expect(result.code).toContain('<a href="../content/setup.md">Setup</a>');
+  expect(result.code).toContain('<img src="../content/images/flow.svg" alt="Diagram">');
+  expect(result.code).toContain('<a href="/index.html">Home</a>');
+});
+
+test('jsonTransform removes comments and trailing commas', async () => {
+  const result = await renderSsi('<!--#include virtual="/data/settings.jsonc" -->', {
+    root: '/site',
+    files,
+    includeTransforms: { json: jsonTransform({ indent: 0, escape: 'script' }) },
+  });
+
+  expect(JSON.parse(result.code)).toEqual({ url: 'https://example.com/*', tags: ['a'] });
+});
+
+test('jsonTransform escapes JSON for script elements', async () => {
+  const result = await renderSsi('<!--#include virtual="/data/site.json" -->', {
+    root: '/site',
+    files,
+    includeTransforms: { json: jsonTransform({ indent: 0, escape: 'script' }) },
+  });
+
+  expect(result.code).toBe('{"name":"Docs \\u003cbeta\\u003e","tags":["a\\u0026b"]}');
+  expect(JSON.parse(result.code)).toEqual({ name: 'Docs <beta>', tags: ['a&b'] });
+});
+
+test('custom transforms receive the include context', async () => {
+  const calls: Array<{ id: string; importer: string; fileType: string }> = [];
+  const result = await renderSsi('<!--#include virtual="/content/changelog.md" -->', {
+    root: '/site',
+    filePath: 'docs/index.html',
+    files,
+    includeTransforms: {
+      text: async (content, context) => {
+        calls.push(context);
+        return content.toUpperCase();
+      },
+      markdown,
+    },
+  });
+
+  // The first matching entry applies
+  expect(result.code).toBe('# CHANGELOG\n\n- VERSION <!--#ECHO VAR="VERSION" -->');
+  expect(calls).toEqual([
+    { id: '/site/content/changelog.md', importer: '/site/docs/index.html', fileType: 'text' },
+  ]);
+});
+
+test('a failing transform is reported as a transform error', async () => {
+  const result = await renderSsi('<!--#include virtual="/data/broken.json" -->', {
+    root: '/site',
+    files,
+    includeTransforms: { json: jsonTransform() },
+  });
+
+  expect(result.code).toMatch(
+    /^<!-- SSI Error: Transform failed for \/data\/broken\.json: .+ -->$/
+  );
+  expect(result.diagnostics).toHaveLength(1);
+  expect(result.diagnostics[0].category).toBe('transform');
+});
+
+test('build renders included Markdown and JSON', async () => {
+  const project = await createTestProject('transforms');
+  projects.push(project);
+
+  await buildProject(project.root, {
+    includeFileTypes: ['markdown'],
+    includeTransforms: { markdown, json: jsonTransform() },
+  });
+
+  const output = await readBuildOutput(project.root);
+  expect(output).toContain('<h1>Changelog</h1>');
+  expect(output).toContain('<li>Added <strong>include transforms</strong></li>');
+  expect(output).toContain('<li>Built on index.html</li>');
+  expect(output).toContain('&quot;name&quot;: &quot;Docs &lt;beta&gt;&quot;');
+  expect(output).not.toContain('SSI Error');
+});
@@ -1,5 +1,6 @@
-import { rm, mkdir, readdir, stat } from 'fs/promises';
-import { join, resolve } from 'path';
+import { rm, mkdir, mkdtemp, readdir, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, join, resolve } from 'path';
 import type { UserConfig, ViteDevServer, Plugin } from 'vite';
 import { build, createServer, preview } from 'vite';
 import vitePluginSsi from '../src/index';
@@ -36,13 +37,6 @@ async function copyDir(src: string, dest: string): Promise<void> {
   }
 }
 
-/**
- * Gets the test project directory path
- */
-function getTestProjectDir(): string {
-  return resolve(import.meta.dir, 'sites', 'test-project');
-}
-
 /**
  * Cleans the test project directory to ensure fresh state
  */
@@ -62,27 +56,22 @@ async function cleanTestProject(root: string): Promise<void> {
 
 /**
  * Creates a test Vite project with the SSI plugin configured
- * Uses a fixed directory in the repo (tests/sites/test-project)
- * Ensures clean state by removing dist, cache, etc.
+ * Copies the fixture into a temporary directory of its own, so files a test writes
+ * never leak into other tests or the repository
  */
 export async function createTestProject(fixtureName: string): Promise<TestProject> {
-  const testProjectDir = getTestProjectDir();
   const fixturesDir = resolve(import.meta.dir, 'fixtures', fixtureName);
 
-  // Clean previous test state
-  await cleanTestProject(testProjectDir);
-
-  // Ensure test project directory exists
-  await mkdir(testProjectDir, { recursive: true });
-
-  // Copy fixture files to test project directory (overwrites existing)
+  // The project is a subdirectory, so tests can create siblings such as `../shared`
+  const tempDir = await mkdtemp(join(tmpdir(), 'vite-plugin-ssi-'));
+  const testProjectDir = join(tempDir, 'project');
   await copyDir(fixturesDir, testProjectDir);
 
   return {
     root: testProjectDir,
     cleanup: async () => {
-      // Clean up after test to ensure next test starts fresh
-      await cleanTestProject(testProjectDir);
+      // Remove the project and anything a test created next to it
+      await rm(tempDir, { recursive: true, force: true });
     },
   };
 }
@@ -301,6 +290,32 @@ export function wait(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Waits until the dev server watches a file or directory. Chokidar adds paths
+ * asynchronously, so they are not watched yet right after a render adds them.
+ * @throws Error if the path is not watched before the deadline
+ */
+export async function waitForWatched(
+  server: ViteDevServer,
+  watchedPath: string,
+  timeout: number = 5000
+): Promise<void> {
+  const isWatched = () => {
+    const watched = server.watcher.getWatched();
+    return (
+      watchedPath in watched ||
+      (watched[dirname(watchedPath)] ?? []).includes(basename(watchedPath))
+    );
+  };
+  const deadline = Date.now() + timeout;
+  while (!isWatched()) {
+    if (Date.now() > deadline) {
+      throw new Error(`${watchedPath} not watched within ${timeout}ms`);
+    }
+    await wait(20);
+  }
+}
+
 /**
  * Waits for HMR update by polling for changes
  * This is a simple implementation - in real tests you might want to use WebSocket
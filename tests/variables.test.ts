@@ -0,0 +1,71 @@
+import { expect, test, afterEach } from 'bun:test';
+import { createTestProject, buildProject, readBuildOutput } from './utils';
+
+let projects: Array<{ cleanup: () => Promise<void> }> = [];
+
+afterEach(async () => {
+  for (const project of projects) {
+    await project.cleanup();
+  }
+  projects = [];
+});
+
+test('set and echo variables in the same document', async () => {
+  const project = await createTestProject('variables');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  // Values can reference previously set variables
+  expect(output).toContain('<h1>Hello from Variables Test</h1>');
+
+  // Directives should be consumed
+  expect(output).not.toContain('<!--#set');
+  expect(output).not.toContain('<!--#echo');
+});
+
+test('variables flow into and out of included files', async () => {
+  const project = await createTestProject('variables');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  // Set in the page, echoed in the include
+  expect(output).toContain('<title>Variables Test</title>');
+
+  // Set in the include, echoed later in the page
+  expect(output).toContain('<p class="from-include">Set in head</p>');
+});
+
+test('echo of undefined variables', async () => {
+  const project = await createTestProject('variables');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  expect(output).toContain('<p class="undefined">(none)</p>');
+  expect(output).toContain('<p class="default">fallback</p>');
+});
+
+test('echo encodings', async () => {
+  const project = await createTestProject('variables');
+  projects.push(project);
+
+  await buildProject(project.root, { includeFileTypes: ['html'] });
+
+  const output = await readBuildOutput(project.root);
+
+  // Entity encoding is the default
+  expect(output).toContain('<p class="entity">&lt;b&gt;bold&lt;/b&gt; &amp; more</p>');
+  expect(output).toContain('<p class="none"><b>bold</b> & more</p>');
+  expect(output).toContain('<p class="url">%3Cb%3Ebold%3C%2Fb%3E%20%26%20more</p>');
+
+  // Escaped dollar signs are not substituted
+  expect(output).toContain('<p class="escaped">$5</p>');
+});